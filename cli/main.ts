@@ -0,0 +1,284 @@
+#!/usr/bin/env node
+// 設定ファイルをまとめて調べるためのコマンドラインツール
+
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { basename, extname, join } from "node:path";
+import { parseArgs } from "node:util";
+import { decodeText } from "../src/encoding.js";
+import { exportCsv, exportJson, exportMarkdown } from "../src/export.js";
+import * as idl from "../src/idl.js";
+import { KnownFolderError, parseKnownFolders, setUserKnownFolders } from "../src/knownfolder.js";
+import {
+  Ocs,
+  OcsDiagnostic,
+  OcsError,
+  OcsItem,
+  OcsItemBroken,
+  OcsItemFolder,
+  OcsItemLaunch,
+  OcsItemSeparator,
+  OcsItemSpecial,
+  OcsItemSubmenu,
+} from "../src/orchis.js";
+
+const USAGE = `使い方: orchis-nozoki <コマンド> [オプション] [ファイル...]
+
+ファイルを省略するか-を指定した場合は標準入力から読み込みます。
+
+コマンド:
+  dump                  ランチャーの項目を参照先のパスと共に表示する
+  validate              設定ファイルの問題を表示する。エラーがあれば終了コードを1とする
+  convert --to <形式>   json、csv、markdownのいずれかに変換する
+
+オプション:
+  --known-folders <ファイル>  名前の対応表（JSON）を読み込む
+  --strict                    validateで警告もエラーとみなす
+  --base64                    convert --to jsonでItemIDをBase64とする
+  --out-dir <フォルダー>      convertの結果を入力と同じ名前のファイルとして書き出す
+  -h, --help                  この説明を表示する
+`;
+
+const EXIT_OK = 0;
+const EXIT_INVALID = 1;
+const EXIT_USAGE = 2;
+
+class UsageError extends Error {}
+
+// idl.tsの診断メッセージが結果に混ざらないよう、標準エラー出力に回す
+idl.setLogger((message) => process.stderr.write(`${message}\n`));
+
+// -は標準入力を表す
+function inputName(path: string): string {
+  return path === "-" ? "（標準入力）" : path;
+}
+
+// 読み込めない場合はundefinedを返す
+function tryReadFile(path: string): Buffer | undefined {
+  try {
+    return readFileSync(path === "-" ? 0 : path);
+  } catch (e) {
+    if (!(e instanceof Error && "code" in e)) {
+      throw e;
+    }
+    return undefined;
+  }
+}
+
+function describeTarget(item: OcsItemLaunch | OcsItemFolder): string {
+  try {
+    return item.displayName();
+  } catch (e) {
+    if (!(e instanceof idl.IdlError)) {
+      throw e;
+    }
+    return `（解決できません：${e.message}）`;
+  }
+}
+
+function dumpItem(item: OcsItem): string {
+  if (item instanceof OcsItemLaunch) {
+    const parts = [`- ${item.caption} → ${describeTarget(item)}`];
+    if (item.parameter) {
+      parts.push(item.parameter);
+    }
+    if (item.verb !== undefined && item.verb !== "open") {
+      parts.push(`（${item.verbString()}）`);
+    }
+    return parts.join(" ");
+  }
+  if (item instanceof OcsItemFolder) {
+    return `- ${item.caption} → ${describeTarget(item)}（フォルダ）`;
+  }
+  if (item instanceof OcsItemSeparator) {
+    return "- ――――";
+  }
+  if (item instanceof OcsItemSubmenu) {
+    return `+ ${item.caption}`;
+  }
+  if (item instanceof OcsItemSpecial) {
+    return `* ${item.caption}（${item.description()}）`;
+  }
+  if (item instanceof OcsItemBroken) {
+    return `! ${item.caption() ?? "（不明）"}：${item.reason}`;
+  }
+  return `? 未対応項目（Type=${String(item.type() ?? "なし")}）`;
+}
+
+function dump(ocs: Ocs): string {
+  const lines: string[] = [];
+  function appendItems(items: OcsItem[], depth: number): void {
+    for (const item of items) {
+      lines.push(`${"  ".repeat(depth)}${dumpItem(item)}`);
+      if (item instanceof OcsItemSubmenu) {
+        appendItems(item.items, depth + 1);
+      }
+    }
+  }
+
+  for (const launcher of ocs.launchers) {
+    lines.push(`[${launcher.title}]`);
+    appendItems(launcher.items, 1);
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function formatDiagnostic(name: string, diagnostic: OcsDiagnostic): string {
+  const severity = diagnostic.severity === "error" ? "エラー" : "警告";
+  const location = diagnostic.line !== undefined ? `${name}:${diagnostic.line}` : name;
+  const key = diagnostic.key !== undefined ? `${diagnostic.sectionPath}\\${diagnostic.key}` : diagnostic.sectionPath;
+  return `${location}: ${severity}: [${key}] ${diagnostic.message}`;
+}
+
+function convert(ocs: Ocs, format: string, base64: boolean): string {
+  switch (format) {
+    case "json":
+      return exportJson(ocs, base64 ? "base64" : "hex");
+    case "csv":
+      return exportCsv(ocs);
+    default:
+      return exportMarkdown(ocs);
+  }
+}
+
+const COMMANDS = ["dump", "validate", "convert"];
+const EXTENSIONS: Record<string, string | undefined> = { json: ".json", csv: ".csv", markdown: ".md" };
+
+function parseCommandLine(args: string[]) {
+  try {
+    return parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        "known-folders": { type: "string" },
+        strict: { type: "boolean" },
+        to: { type: "string" },
+        base64: { type: "boolean" },
+        "out-dir": { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (e) {
+    // 不明なオプションなど
+    if (!(e instanceof TypeError)) {
+      throw e;
+    }
+    throw new UsageError(e.message);
+  }
+}
+
+function loadKnownFolders(path: string): void {
+  try {
+    const bytes = tryReadFile(path);
+    if (bytes === undefined) {
+      throw new UsageError(`名前の対応表を読み込めません：${path}`);
+    }
+    setUserKnownFolders(parseKnownFolders(JSON.parse(bytes.toString("utf-8"))));
+  } catch (e) {
+    if (!(e instanceof KnownFolderError || e instanceof SyntaxError)) {
+      throw e;
+    }
+    throw new UsageError(`名前の対応表を読み込めませんでした：${e.message}`);
+  }
+}
+
+function main(args: string[]): number {
+  const { values, positionals } = parseCommandLine(args);
+  const [command, ...paths] = positionals;
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return EXIT_OK;
+  }
+  if (command === undefined) {
+    throw new UsageError("コマンドを指定してください");
+  }
+  if (!COMMANDS.includes(command)) {
+    throw new UsageError(`不明なコマンドです：${command}`);
+  }
+  // 標準入力を読み始める前に変換先の形式を確かめる
+  if (command === "convert" && EXTENSIONS[values.to ?? ""] === undefined) {
+    throw new UsageError(values.to === undefined ? "--toで変換先の形式を指定してください" : `未対応の形式です：${values.to}`);
+  }
+  if (command === "convert" && paths.length > 1 && values["out-dir"] === undefined) {
+    throw new UsageError("複数のファイルを変換する場合は--out-dirを指定してください");
+  }
+
+  if (values["known-folders"] !== undefined) {
+    loadKnownFolders(values["known-folders"]);
+  }
+
+  if (paths.length === 0) {
+    paths.push("-");
+  }
+
+  // 多数のファイルを扱えるよう、1つずつ読み込んで処理する
+  let status = EXIT_OK;
+  for (const path of paths) {
+    const name = inputName(path);
+    const bytes = tryReadFile(path);
+    if (bytes === undefined) {
+      process.stderr.write(`${name}: エラー: ファイルを読み込めません\n`);
+      status = EXIT_INVALID;
+      continue;
+    }
+
+    let ocs;
+    try {
+      ocs = Ocs.parse(decodeText(bytes).text, { recover: true, reconstruct: true });
+    } catch (e) {
+      if (!(e instanceof OcsError)) {
+        throw e;
+      }
+      process.stderr.write(`${name}: エラー: ${e.message}\n`);
+      status = EXIT_INVALID;
+      continue;
+    }
+
+    switch (command) {
+      case "dump":
+        if (paths.length > 1) {
+          process.stdout.write(`== ${name} ==\n`);
+        }
+        process.stdout.write(dump(ocs));
+        break;
+
+      case "validate": {
+        for (const diagnostic of ocs.diagnostics) {
+          process.stdout.write(`${formatDiagnostic(name, diagnostic)}\n`);
+        }
+        const failed = ocs.diagnostics.some((d) => d.severity === "error" || values.strict);
+        if (failed) {
+          status = EXIT_INVALID;
+        } else if (ocs.diagnostics.length === 0) {
+          process.stdout.write(`${name}: 問題はありません\n`);
+        }
+        break;
+      }
+
+      case "convert": {
+        const format = values.to!;
+        const output = convert(ocs, format, values.base64 ?? false);
+        const outDir = values["out-dir"];
+        if (outDir !== undefined) {
+          mkdirSync(outDir, { recursive: true });
+          const baseName = path !== "-" ? basename(path, extname(path)) : "stdin";
+          writeFileSync(join(outDir, `${baseName}${EXTENSIONS[format]}`), output);
+        } else {
+          process.stdout.write(output);
+        }
+        break;
+      }
+    }
+  }
+  return status;
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (e) {
+  if (e instanceof UsageError) {
+    process.stderr.write(`${e.message}\n\n${USAGE}`);
+    process.exitCode = EXIT_USAGE;
+  } else {
+    throw e;
+  }
+}
@@ -1,4 +1,12 @@
+import * as Diff from "./diff.js";
+import * as Encoding from "./encoding.js";
+import * as Export from "./export.js";
+import * as idl from "./idl.js";
+import * as Import from "./import.js";
+import * as KnownFolder from "./knownfolder.js";
+import * as Lnk from "./lnk.js";
 import * as Orchis from "./orchis.js";
+import * as PowerShell from "./powershell.js";
 
 window.addEventListener("DOMContentLoaded", () => {
   (window as { app?: App }).app = new App();
@@ -10,16 +18,102 @@ function clearChildren(parent: HTMLElement): void {
   }
 }
 
+function toBin(arr: Uint8Array): string {
+  return Array.from(arr, (n) => n.toString(16).padStart(2, "0").slice(-2)).join(" ");
+}
+
+function formatDate(date: Date | undefined): string {
+  return date?.toLocaleString("ja-JP") ?? "（記録なし）";
+}
+
+// 参照先に記録されたファイルのサイズや日時を情報に加える
+function setFileMetadata(info: Map<string, string>, itemID: Uint8Array): void {
+  let metadata;
+  try {
+    metadata = idl.getFileMetadataFromItemID(itemID);
+  } catch (e) {
+    if (!(e instanceof idl.IdlError)) {
+      throw e;
+    }
+  }
+  if (metadata === undefined) {
+    return;
+  }
+
+  if (!(metadata.attributes & idl.FILE_ATTRIBUTE_DIRECTORY)) {
+    info.set("サイズ", `${metadata.size.toLocaleString("ja-JP")} バイト`);
+  }
+  info.set("更新日時", formatDate(metadata.modified));
+  info.set("作成日時", formatDate(metadata.created));
+  info.set("最終アクセス日時", formatDate(metadata.accessed));
+  info.set("属性", idl.getFileAttributeNames(metadata.attributes).join("、") || "（なし）");
+}
+
+const DIFF_FIELD_NAMES: Record<Diff.OcsFieldChange["field"], string> = {
+  caption: "項目名",
+  target: "参照先",
+  parameter: "パラメータ",
+  verb: "実行時の動作",
+  showCmd: "実行時の大きさ",
+  id: "特殊項目のID",
+  section: "内容",
+};
+
+const DIFF_KIND_NAMES: Record<Diff.OcsDiffKind, string> = {
+  added: "追加",
+  removed: "削除",
+  moved: "移動",
+  changed: "変更",
+  unchanged: "",
+};
+
+function download(fileName: string, blob: Blob): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// 読み込んだ名前の対応表を保存しておくキー
+const KNOWN_FOLDERS_STORAGE_KEY = "orchis-nozoki.knownFolders";
+
 class App {
   #eFileDialog: HTMLDialogElement;
   #eFileInput: HTMLInputElement;
 
   #eLauncherSelect: HTMLSelectElement;
+  #eEncodingSelect: HTMLSelectElement;
+  #eSaveButton: HTMLButtonElement;
+  #eKnownFoldersButton: HTMLButtonElement;
+  #eKnownFoldersInput: HTMLInputElement;
+  #eCompareButton: HTMLButtonElement;
+  #eCompareInput: HTMLInputElement;
+  #eDiffDialog: HTMLDialogElement;
+  #eDiffTable: HTMLTableElement;
+  #eMergeDialog: HTMLDialogElement;
+  #eMergeSources: HTMLDivElement;
+  #eMergeTarget: HTMLUListElement;
+  #eMergeInput: HTMLInputElement;
   #eLauncher: HTMLDivElement;
+  #eSearch: HTMLInputElement;
+  #eSearchResults: HTMLUListElement;
   #eInfo: HTMLDivElement;
+  #eProblems: HTMLUListElement;
 
   #ocs?: Orchis.Ocs;
+  #fileName = "orchis.ocs";
+  // 文字コードを選び直したときのために読み込んだファイルの中身を持っておく
+  #fileBytes?: Uint8Array;
+  #encoding: Encoding.TextEncoding = "utf-8";
+  #bom = false;
   #items: Orchis.OcsItem[] = [];
+  #searchHits: Orchis.OcsSearchHit[] = [];
+  // 統合の元となるファイルと統合先
+  #mergeSources: Array<{ name: string; ocs: Orchis.Ocs }> = [];
+  #mergeTarget?: Orchis.Ocs;
+  #mergeDragged?: Orchis.OcsLauncher | Orchis.OcsItemSubmenu;
 
   debug = false;
 
@@ -27,7 +121,8 @@ class App {
     this.#eFileDialog = document.getElementById("file-dialog")! as HTMLDialogElement;
     this.#eFileInput = document.createElement("input")!;
     this.#eFileInput.type = "file";
-    this.#eFileInput.accept = ".ocs";
+    this.#eFileInput.accept = ".ocs,.json,.lnk,.url";
+    this.#eFileInput.multiple = true;
 
     let closeTimer: number | undefined;
     document.body.addEventListener("dragover", (e) => {
@@ -55,8 +150,8 @@ class App {
     });
     document.body.addEventListener("drop", async (e) => {
       e.preventDefault();
-      if (e.dataTransfer?.files.length === 1) {
-        this.processText(await e.dataTransfer.files[0].text());
+      if (e.dataTransfer !== null && e.dataTransfer.files.length > 0) {
+        await this.processFiles(Array.from(e.dataTransfer.files));
       }
 
       if (this.#ocs !== undefined) {
@@ -73,8 +168,9 @@ class App {
       });
     }
     this.#eFileInput.addEventListener("input", async () => {
-      if (this.#eFileInput.files?.length === 1) {
-        this.processText(await this.#eFileInput.files[0].text());
+      if (this.#eFileInput.files !== null && this.#eFileInput.files.length > 0) {
+        await this.processFiles(Array.from(this.#eFileInput.files));
+        this.#eFileInput.value = "";
 
         // ファイルが開かれた場合はダイアログを閉じる
         if (this.#ocs !== undefined) {
@@ -84,8 +180,36 @@ class App {
     });
 
     this.#eLauncherSelect = document.getElementById("launcher-select")! as HTMLSelectElement;
+    this.#eEncodingSelect = document.getElementById("encoding-select")! as HTMLSelectElement;
+    for (const [encoding, name] of Encoding.TEXT_ENCODINGS) {
+      const eOption = document.createElement("option");
+      eOption.value = encoding;
+      eOption.textContent = name;
+      this.#eEncodingSelect.append(eOption);
+    }
+    this.#eSaveButton = document.getElementById("save-button")! as HTMLButtonElement;
+    this.#eKnownFoldersButton = document.getElementById("known-folders-button")! as HTMLButtonElement;
+    this.#eKnownFoldersInput = document.createElement("input")!;
+    this.#eKnownFoldersInput.type = "file";
+    this.#eKnownFoldersInput.accept = ".json";
+    this.#eCompareButton = document.getElementById("compare-button")! as HTMLButtonElement;
+    this.#eCompareInput = document.createElement("input")!;
+    this.#eCompareInput.type = "file";
+    this.#eCompareInput.accept = ".ocs";
+    this.#eDiffDialog = document.getElementById("diff-dialog")! as HTMLDialogElement;
+    this.#eDiffTable = document.getElementById("diff-table")! as HTMLTableElement;
+    this.#eMergeDialog = document.getElementById("merge-dialog")! as HTMLDialogElement;
+    this.#eMergeSources = document.getElementById("merge-sources")! as HTMLDivElement;
+    this.#eMergeTarget = document.getElementById("merge-target")! as HTMLUListElement;
+    this.#eMergeInput = document.createElement("input")!;
+    this.#eMergeInput.type = "file";
+    this.#eMergeInput.accept = ".ocs";
+    this.#eMergeInput.multiple = true;
     this.#eLauncher = document.getElementById("launcher")! as HTMLDivElement;
+    this.#eSearch = document.getElementById("search")! as HTMLInputElement;
+    this.#eSearchResults = document.getElementById("search-results")! as HTMLUListElement;
     this.#eInfo = document.getElementById("info")! as HTMLDivElement;
+    this.#eProblems = document.getElementById("problems")! as HTMLUListElement;
 
     this.#eLauncherSelect.addEventListener("input", () => {
       const launcher = this.#ocs?.launchers?.[this.#eLauncherSelect.selectedIndex];
@@ -93,6 +217,138 @@ class App {
         this.#processLauncher(launcher);
       }
     });
+    this.#eEncodingSelect.addEventListener("input", () => {
+      if (this.#fileBytes === undefined) {
+        return;
+      }
+
+      const encoding = this.#eEncodingSelect.value as Encoding.TextEncoding | "";
+      this.processBytes(this.#fileBytes, encoding || undefined);
+    });
+    this.#eSaveButton.addEventListener("click", () => {
+      this.saveFile();
+    });
+    this.#eKnownFoldersButton.addEventListener("click", () => {
+      this.#eKnownFoldersInput.click();
+    });
+    this.#eKnownFoldersInput.addEventListener("input", async () => {
+      if (this.#eKnownFoldersInput.files?.length === 1) {
+        this.loadKnownFolders(await this.#eKnownFoldersInput.files[0].text());
+        this.#eKnownFoldersInput.value = "";
+      }
+    });
+    this.#eCompareButton.addEventListener("click", () => {
+      this.#eCompareInput.click();
+    });
+    this.#eCompareInput.addEventListener("input", async () => {
+      if (this.#eCompareInput.files?.length === 1) {
+        await this.compareFile(this.#eCompareInput.files[0]);
+        this.#eCompareInput.value = "";
+      }
+    });
+    document.getElementById("diff-close-button")!.addEventListener("click", () => {
+      this.#eDiffDialog.close();
+    });
+    const eExportSelect = document.getElementById("export-select")! as HTMLSelectElement;
+    eExportSelect.addEventListener("change", () => {
+      this.exportAs(eExportSelect.value);
+      eExportSelect.value = "";
+    });
+    document.getElementById("merge-button")!.addEventListener("click", () => {
+      this.openMerge();
+    });
+    document.getElementById("merge-add-button")!.addEventListener("click", () => {
+      this.#eMergeInput.click();
+    });
+    this.#eMergeInput.addEventListener("input", async () => {
+      for (const file of this.#eMergeInput.files ?? []) {
+        await this.addMergeSource(file);
+      }
+      this.#eMergeInput.value = "";
+    });
+    document.getElementById("merge-save-button")!.addEventListener("click", () => {
+      if (this.#mergeTarget !== undefined) {
+        this.#download("merged.ocs", this.#mergeTarget.serialize());
+      }
+    });
+    document.getElementById("merge-open-button")!.addEventListener("click", () => {
+      if (this.#mergeTarget !== undefined && this.processText(this.#mergeTarget.serialize())) {
+        this.#fileName = "merged.ocs";
+        this.#fileBytes = undefined;
+        this.#eMergeDialog.close();
+      }
+    });
+    document.getElementById("merge-close-button")!.addEventListener("click", () => {
+      this.#eMergeDialog.close();
+    });
+    this.#eMergeSources.addEventListener("dragend", () => {
+      this.#mergeDragged = undefined;
+      this.#eMergeTarget.querySelector(".drop-target")?.classList.remove("drop-target");
+      this.#eMergeTarget.classList.remove("drop-target");
+    });
+    this.#eMergeTarget.addEventListener("dragover", (e) => {
+      if (this.#mergeDragged === undefined) {
+        return;
+      }
+      e.preventDefault();
+      e.stopPropagation();
+
+      // ランチャーの上ならそのランチャーに、そうでなければ末尾に加える
+      const eLauncher = (e.target as HTMLElement | null)?.closest<HTMLElement>("li");
+      const current = this.#eMergeTarget.querySelector(".drop-target") ?? this.#eMergeTarget;
+      const next = eLauncher ?? this.#eMergeTarget;
+      if (current !== next) {
+        current.classList.remove("drop-target");
+        next.classList.add("drop-target");
+      }
+    });
+    this.#eMergeTarget.addEventListener("drop", (e) => {
+      const dragged = this.#mergeDragged;
+      if (dragged === undefined) {
+        return;
+      }
+      e.preventDefault();
+      e.stopPropagation();
+
+      const launcher = dragged instanceof Orchis.OcsLauncher ? dragged : Orchis.OcsLauncher.fromSubmenu(dragged);
+      const eLauncher = (e.target as HTMLElement | null)?.closest<HTMLElement>("li");
+      const index = eLauncher?.dataset.index;
+      this.#mergeLauncher(launcher, index ? this.#mergeTarget?.launchers[Number.parseInt(index)] : undefined);
+      this.#renderMergeTarget();
+    });
+    this.#eMergeTarget.addEventListener("click", (e) => {
+      const eRemove = (e.target as HTMLElement | null)?.closest<HTMLElement>(".remove");
+      const index = eRemove?.closest<HTMLElement>("li")?.dataset.index;
+      if (index && this.#mergeTarget) {
+        this.#mergeTarget.launchers.splice(Number.parseInt(index), 1);
+        this.#renderMergeTarget();
+      }
+    });
+    this.#eSearch.addEventListener("input", () => {
+      this.#search();
+    });
+    this.#eSearchResults.addEventListener("click", (e) => {
+      const eHit = (e.target as HTMLElement | null)?.closest<HTMLElement>(".hit");
+      if (!eHit?.dataset.index) {
+        return;
+      }
+
+      const hit = this.#searchHits[Number.parseInt(eHit.dataset.index, 10)];
+      if (hit) {
+        this.#jumpToItem(hit.launcher, hit.item);
+      }
+    });
+    this.#eProblems.addEventListener("click", (e) => {
+      const eProblem = (e.target as HTMLElement | null)?.closest<HTMLElement>(".problem");
+      if (!eProblem?.dataset.index) {
+        return;
+      }
+
+      const diagnostic = this.#ocs?.diagnostics[Number.parseInt(eProblem.dataset.index, 10)];
+      if (diagnostic) {
+        this.#jumpTo(diagnostic);
+      }
+    });
     this.#eLauncher.addEventListener("mouseover", (e) => {
       if (this.#eLauncher.querySelector(".item.locked")) {
         return;
@@ -137,11 +393,130 @@ class App {
         eItem.classList.add("locked");
       }
     });
+
+    const knownFolders = localStorage.getItem(KNOWN_FOLDERS_STORAGE_KEY);
+    if (knownFolders !== null) {
+      this.loadKnownFolders(knownFolders, false);
+    }
+  }
+
+  // ユーザー定義の名前の対応表を読み込み、次回以降のために保存する
+  loadKnownFolders(text: string, store = true): boolean {
+    try {
+      KnownFolder.setUserKnownFolders(KnownFolder.parseKnownFolders(JSON.parse(text)));
+    } catch (e) {
+      if (!(e instanceof KnownFolder.KnownFolderError || e instanceof SyntaxError)) {
+        throw e;
+      }
+      alert(`名前の対応表を読み込めませんでした：${e.message}`);
+      return false;
+    }
+
+    if (store) {
+      localStorage.setItem(KNOWN_FOLDERS_STORAGE_KEY, text);
+    }
+
+    // 表示中の項目の名前を引き直す
+    const launcher = this.#ocs?.launchers[this.#eLauncherSelect.selectedIndex];
+    if (launcher) {
+      clearChildren(this.#eInfo);
+      this.#processLauncher(launcher);
+    }
+    return true;
+  }
+
+  // 設定ファイルかJSONを開き、ショートカットは表示中のランチャーに加える
+  async processFiles(files: File[]): Promise<void> {
+    const shortcuts = files.filter((file) => /\.(?:lnk|url)$/i.test(file.name));
+    const others = files.filter((file) => !shortcuts.includes(file));
+    if (others.length > 0) {
+      await this.processFile(others[0]);
+    }
+    if (shortcuts.length > 0) {
+      await this.addShortcutFiles(shortcuts);
+    }
+  }
+
+  async addShortcutFiles(files: File[]): Promise<void> {
+    const items: Orchis.OcsItem[] = [];
+    const errors: string[] = [];
+    for (const file of files) {
+      const data = new Uint8Array(await file.arrayBuffer());
+      try {
+        items.push(
+          /\.url$/i.test(file.name) ? Lnk.parseInternetShortcut(data, file.name) : Lnk.parseShellLink(data, file.name),
+        );
+      } catch (e) {
+        if (!(e instanceof Lnk.LnkError)) {
+          throw e;
+        }
+        errors.push(`${file.name}：${e.message}`);
+      }
+    }
+    if (errors.length > 0) {
+      alert(`読み込めないショートカットがあります。\n${errors.join("\n")}`);
+    }
+    if (items.length === 0) {
+      return;
+    }
+
+    const launcher = this.#ocs?.launchers[this.#eLauncherSelect.selectedIndex];
+    if (this.#ocs === undefined || launcher === undefined) {
+      // 加える先のランチャーがなければ、ショートカットだけのランチャーを作る
+      const ocs = this.#ocs ?? new Orchis.Ocs([]);
+      ocs.launchers.push(new Orchis.OcsLauncher(ocs.uniqueTitle("ショートカット"), items));
+      this.processText(ocs.serialize());
+      return;
+    }
+
+    // セクションがなかったランチャーも、項目を加えたら書き出す
+    launcher.placeholder = false;
+    launcher.items.push(...items);
+    this.#processLauncher(launcher);
+    this.#search();
+  }
+
+  async processFile(file: File): Promise<void> {
+    if (/\.json$/i.test(file.name)) {
+      await this.importJsonFile(file);
+      return;
+    }
+
+    this.#eEncodingSelect.value = "";
+    if (this.processBytes(new Uint8Array(await file.arrayBuffer()))) {
+      this.#fileName = file.name;
+    }
+  }
+
+  // JSONのランチャー定義から設定ファイルを作って開く
+  async importJsonFile(file: File): Promise<void> {
+    let ocs;
+    try {
+      ocs = Import.importJson(await file.text());
+    } catch (e) {
+      if (!(e instanceof Import.JsonImportError)) {
+        throw e;
+      }
+      alert(`${file.name}を読み込めません。\n${e.message}`);
+      return;
+    }
+
+    if (this.#confirmBrokenItems(ocs) && this.processText(ocs.serialize())) {
+      this.#fileName = file.name.replace(/\.json$/i, ".ocs");
+      this.#fileBytes = undefined;
+    }
   }
 
-  processText(text: string): void {
+  // 開いているファイルを左、指定したファイルを右に並べて差分を表示する
+  async compareFile(file: File): Promise<void> {
+    if (this.#ocs === undefined) {
+      return;
+    }
+
+    let other;
     try {
-      this.#ocs = Orchis.Ocs.parse(text);
+      const { text } = Encoding.decodeText(new Uint8Array(await file.arrayBuffer()));
+      other = Orchis.Ocs.parse(text, { recover: true, reconstruct: true });
     } catch (e) {
       if (!(e instanceof Orchis.OcsError)) {
         throw e;
@@ -150,13 +525,282 @@ class App {
       return;
     }
 
+    const [eBefore, eAfter] = this.#eDiffTable.tHead!.rows[0].cells;
+    eBefore.textContent = this.#fileName;
+    eAfter.textContent = file.name;
+
+    const eBody = this.#eDiffTable.tBodies[0];
+    clearChildren(eBody);
+    for (const launcher of Diff.diffOcs(this.#ocs, other)) {
+      const eRow = eBody.insertRow();
+      eRow.classList.add("launcher", launcher.kind);
+      eRow.insertCell().textContent = launcher.before?.title ?? "";
+      eRow.insertCell().textContent = launcher.after?.title ?? "";
+      this.#appendDiffRows(eBody, launcher.items, 0);
+    }
+
+    if (!this.#eDiffDialog.open) {
+      this.#eDiffDialog.showModal();
+    }
+  }
+
+  #appendDiffRows(eBody: HTMLTableSectionElement, diffs: Diff.OcsItemDiff[], depth: number): void {
+    for (const diff of diffs) {
+      const eRow = eBody.insertRow();
+      eRow.classList.add(diff.kind);
+      eRow.title = DIFF_KIND_NAMES[diff.kind];
+
+      for (const item of [diff.before, diff.after]) {
+        const eCell = eRow.insertCell();
+        eCell.style.paddingLeft = `${depth + 0.25}em`;
+        eCell.textContent = item !== undefined ? Diff.itemLabel(item) : "";
+      }
+
+      if (diff.changes.length > 0) {
+        const eChanges = document.createElement("ul");
+        eChanges.classList.add("changes");
+        for (const change of diff.changes) {
+          const eChange = document.createElement("li");
+          eChange.textContent = `${DIFF_FIELD_NAMES[change.field]}：${change.before ?? "（なし）"} → ${change.after ?? "（なし）"}`;
+          eChanges.append(eChange);
+        }
+        eRow.cells[1].append(eChanges);
+      }
+
+      this.#appendDiffRows(eBody, diff.children, depth + 1);
+    }
+  }
+
+  // encodingを省略した場合は文字コードを自動判別する
+  processBytes(bytes: Uint8Array, encoding?: Encoding.TextEncoding): boolean {
+    const decoded = Encoding.decodeText(bytes, encoding);
+    if (!this.processText(decoded.text)) {
+      return false;
+    }
+
+    this.#fileBytes = bytes;
+    this.#encoding = decoded.encoding;
+    this.#bom = decoded.bom;
+
+    // 自動判別の選択肢に判別結果を表示する
+    const name = Encoding.TEXT_ENCODINGS.find(([e]) => e === decoded.encoding)?.[1];
+    this.#eEncodingSelect.options[0].textContent = encoding === undefined ? `自動判別（${name}）` : "自動判別";
+    return true;
+  }
+
+  saveFile(): void {
+    if (this.#ocs === undefined) {
+      return;
+    }
+
+    if (this.#confirmBrokenItems(this.#ocs)) {
+      this.#download(this.#fileName, this.#ocs.serialize());
+    }
+  }
+
+  // 読み込めなかった項目は書き出せないため、失われてもよいか確かめる
+  #confirmBrokenItems(ocs: Orchis.Ocs): boolean {
+    const count = ocs.countBrokenItems();
+    return count === 0 || confirm(`読み込めなかった項目（${count}個）は書き出せないため失われます。続けますか？`);
+  }
+
+  // 書き出す形式はJSON、CSV、Markdown、ショートカット、PowerShellのいずれか。文字コードはUTF-8とする
+  exportAs(format: string): void {
+    if (this.#ocs === undefined) {
+      return;
+    }
+
+    const baseName = this.#fileName.replace(/\.ocs$/i, "");
+    switch (format) {
+      case "json":
+      case "json-base64": {
+        const text = Export.exportJson(this.#ocs, format === "json" ? "hex" : "base64");
+        download(`${baseName}.json`, new Blob([text], { type: "application/json" }));
+        break;
+      }
+
+      case "csv":
+        // Excelで文字化けしないようにBOMを付ける
+        download(`${baseName}.csv`, new Blob(["\uFEFF", Export.exportCsv(this.#ocs)], { type: "text/csv" }));
+        break;
+
+      case "markdown":
+        download(`${baseName}.md`, new Blob([Export.exportMarkdown(this.#ocs)], { type: "text/markdown" }));
+        break;
+
+      case "lnk":
+        download(`${baseName}.zip`, new Blob([Lnk.exportShortcuts(this.#ocs)], { type: "application/zip" }));
+        break;
+
+      case "ps1": {
+        const launcher = this.#ocs.launchers[this.#eLauncherSelect.selectedIndex];
+        if (launcher !== undefined) {
+          // Windows PowerShellはBOMのないファイルをANSIとして読むため、BOMを付ける
+          const script = PowerShell.exportPowerShell(launcher);
+          download(`${baseName}.ps1`, new Blob(["\uFEFF", script], { type: "text/plain" }));
+        }
+        break;
+      }
+    }
+  }
+
+  // 開いているファイルと同じ文字コードで書き出す
+  #download(fileName: string, text: string): void {
+    let bytes;
+    try {
+      bytes = Encoding.encodeText(text, this.#encoding, this.#bom);
+    } catch (e) {
+      if (!(e instanceof Encoding.EncodingError)) {
+        throw e;
+      }
+      alert(e.message);
+      return;
+    }
+    download(fileName, new Blob([bytes], { type: "application/octet-stream" }));
+  }
+
+  // 開いているファイルを元に、ランチャーの統合を始める
+  openMerge(): void {
+    if (this.#ocs === undefined) {
+      return;
+    }
+
+    // ランチャー以外の設定は開いているファイルのものを引き継ぐ
+    this.#mergeSources = [{ name: this.#fileName, ocs: this.#ocs }];
+    this.#mergeTarget = new Orchis.Ocs([], { ...this.#ocs.section });
+    this.#renderMergeSources();
+    this.#renderMergeTarget();
+    this.#eMergeDialog.showModal();
+  }
+
+  async addMergeSource(file: File): Promise<void> {
+    let ocs;
+    try {
+      const { text } = Encoding.decodeText(new Uint8Array(await file.arrayBuffer()));
+      ocs = Orchis.Ocs.parse(text, { recover: true, reconstruct: true });
+    } catch (e) {
+      if (!(e instanceof Orchis.OcsError)) {
+        throw e;
+      }
+      alert(`${file.name}：${e.message}`);
+      return;
+    }
+
+    this.#mergeSources.push({ name: file.name, ocs });
+    this.#renderMergeSources();
+  }
+
+  // intoを指定した場合はそのランチャーのサブメニューとして加える。同じ名前があれば別の名前を尋ねる
+  #mergeLauncher(launcher: Orchis.OcsLauncher, into?: Orchis.OcsLauncher): void {
+    const target = this.#mergeTarget!;
+    let title = launcher.title;
+    const exists = into !== undefined ? into.hasSubmenu(title) : target.launchers.some((l) => l.title === title);
+    if (exists) {
+      const kind = into !== undefined ? "サブメニュー" : "ランチャー";
+      const input = prompt(
+        `「${title}」という名前の${kind}は既にあります。\n別の名前を入力してください。同じ名前のままにすると置き換えます。`,
+        into !== undefined ? into.uniqueSubmenuCaption(title) : target.uniqueTitle(title),
+      );
+      if (input === null) {
+        return;
+      }
+      title = input;
+    }
+
+    if (into !== undefined) {
+      into.mergeSubmenu(launcher, title);
+    } else {
+      target.mergeLauncher(launcher, title);
+    }
+  }
+
+  #renderMergeSources(): void {
+    clearChildren(this.#eMergeSources);
+    for (const source of this.#mergeSources) {
+      const eSource = document.createElement("section");
+      const eName = document.createElement("h4");
+      eName.textContent = source.name;
+
+      const eList = document.createElement("ul");
+      for (const launcher of source.ocs.launchers) {
+        eList.append(this.#createMergeEntry(launcher, launcher.title, launcher.items));
+      }
+      eSource.append(eName, eList);
+      this.#eMergeSources.append(eSource);
+    }
+  }
+
+  // ランチャーとサブメニューをドラッグできる項目として並べる
+  #createMergeEntry(
+    entry: Orchis.OcsLauncher | Orchis.OcsItemSubmenu,
+    caption: string,
+    items: Orchis.OcsItem[],
+  ): HTMLElement {
+    const eEntry = document.createElement("li");
+    const eCaption = document.createElement("div");
+    eCaption.classList.add("caption");
+    eCaption.textContent = caption;
+    eCaption.draggable = true;
+    eCaption.addEventListener("dragstart", (e) => {
+      this.#mergeDragged = entry;
+      e.dataTransfer?.setData("text/plain", caption);
+    });
+    eEntry.append(eCaption);
+
+    const submenus = items.filter((item): item is Orchis.OcsItemSubmenu => item instanceof Orchis.OcsItemSubmenu);
+    if (submenus.length > 0) {
+      const eChildren = document.createElement("ul");
+      for (const submenu of submenus) {
+        eChildren.append(this.#createMergeEntry(submenu, submenu.caption, submenu.items));
+      }
+      eEntry.append(eChildren);
+    }
+    return eEntry;
+  }
+
+  #renderMergeTarget(): void {
+    clearChildren(this.#eMergeTarget);
+    this.#eMergeTarget.classList.remove("drop-target");
+    this.#mergeTarget?.launchers.forEach((launcher, i) => {
+      const eLauncher = document.createElement("li");
+      eLauncher.dataset.index = i.toString();
+
+      const eTitle = document.createElement("span");
+      eTitle.textContent = `${launcher.title}（${launcher.items.length}項目）`;
+
+      const eRemove = document.createElement("button");
+      eRemove.type = "button";
+      eRemove.classList.add("remove");
+      eRemove.textContent = "削除";
+
+      eLauncher.append(eTitle, eRemove);
+      this.#eMergeTarget.append(eLauncher);
+    });
+  }
+
+  processText(text: string): boolean {
+    try {
+      this.#ocs = Orchis.Ocs.parse(text, { recover: true, reconstruct: true });
+    } catch (e) {
+      if (!(e instanceof Orchis.OcsError)) {
+        throw e;
+      }
+      alert(e.message);
+      return false;
+    }
+
     this.#items = [];
     clearChildren(this.#eLauncherSelect);
     clearChildren(this.#eLauncher);
     clearChildren(this.#eInfo);
+    clearChildren(this.#eProblems);
     this.#eLauncher.scrollTop = 0;
     document.body.classList.add("loaded");
 
+    for (let i = 0; i < this.#ocs.diagnostics.length; i++) {
+      this.#eProblems.append(this.#createProblem(i, this.#ocs.diagnostics[i]));
+    }
+
     for (let i = 0; i < this.#ocs.launchers.length; i++) {
       const launcher = this.#ocs.launchers[i];
       this.#eLauncherSelect.append(this.#createLauncherOption(i, launcher));
@@ -164,9 +808,12 @@ class App {
     if (this.#ocs.launchers.length > 0) {
       this.#processLauncher(this.#ocs.launchers[0]);
     }
+    this.#search();
+    return true;
   }
 
   #processLauncher(launcher: Orchis.OcsLauncher): void {
+    this.#items = [];
     clearChildren(this.#eLauncher);
     for (const item of launcher.items) {
       this.#eLauncher.append(this.#createItem(item));
@@ -187,6 +834,80 @@ class App {
     return true;
   }
 
+  #jumpTo(diagnostic: Orchis.OcsDiagnostic): void {
+    const found = this.#ocs?.findBySectionPath(diagnostic.sectionPath);
+    if (found) {
+      this.#jumpToItem(found.launcher, found.item);
+    }
+  }
+
+  #jumpToItem(launcher: Orchis.OcsLauncher, item: Orchis.OcsItem | undefined): void {
+    const launcherIndex = this.#ocs!.launchers.indexOf(launcher);
+    if (this.#eLauncherSelect.selectedIndex !== launcherIndex) {
+      this.#eLauncherSelect.selectedIndex = launcherIndex;
+      this.#processLauncher(launcher);
+    }
+    if (!item) {
+      return;
+    }
+
+    const index = this.#items.indexOf(item);
+    const eItem = this.#eLauncher.querySelector<HTMLElement>(`.item[data-index="${index}"]`);
+    if (!eItem) {
+      return;
+    }
+
+    this.#eLauncher.querySelector(".item.locked")?.classList.remove("locked");
+    if (this.#selectItem(eItem, item)) {
+      eItem.classList.add("locked");
+    }
+    eItem.scrollIntoView({ block: "nearest" });
+  }
+
+  #search(): void {
+    this.#searchHits = this.#ocs?.search(this.#eSearch.value.trim()) ?? [];
+    clearChildren(this.#eSearchResults);
+    for (let i = 0; i < this.#searchHits.length; i++) {
+      this.#eSearchResults.append(this.#createSearchHit(i, this.#searchHits[i]));
+    }
+  }
+
+  #createSearchHit(index: number, hit: Orchis.OcsSearchHit): HTMLElement {
+    const eHit = document.createElement("li");
+    eHit.classList.add("hit");
+    eHit.dataset.index = index.toString();
+
+    const eBreadcrumb = document.createElement("div");
+    eBreadcrumb.classList.add("breadcrumb");
+    eBreadcrumb.textContent = hit.breadcrumb.join(" › ");
+
+    const eCaption = document.createElement("div");
+    eCaption.textContent = hit.caption ?? "（名前なし）";
+
+    eHit.append(eBreadcrumb, eCaption);
+    if (hit.matched !== hit.caption) {
+      const eMatched = document.createElement("div");
+      eMatched.classList.add("matched");
+      eMatched.textContent = hit.matched;
+      eHit.append(eMatched);
+    }
+    return eHit;
+  }
+
+  #createProblem(index: number, diagnostic: Orchis.OcsDiagnostic): HTMLElement {
+    const eProblem = document.createElement("li");
+    eProblem.classList.add("problem", diagnostic.severity);
+    eProblem.dataset.index = index.toString();
+
+    const location = [
+      diagnostic.line !== undefined ? `${diagnostic.line}行目` : undefined,
+      diagnostic.sectionPath ? `[${diagnostic.sectionPath}]` : undefined,
+      diagnostic.key,
+    ].filter((s) => s !== undefined);
+    eProblem.textContent = `${location.join(" ")}：${diagnostic.message}`;
+    return eProblem;
+  }
+
   #createLauncherOption(index: number, launcher: Orchis.OcsLauncher): HTMLElement {
     const eOption = document.createElement("option");
     eOption.value = index.toString();
@@ -226,6 +947,9 @@ class App {
     } else if (item instanceof Orchis.OcsItemUnknown) {
       eItem.classList.add("unknown");
       addCaption("未対応項目");
+    } else if (item instanceof Orchis.OcsItemBroken) {
+      eItem.classList.add("broken");
+      addCaption(item.caption() ?? "読み込めない項目");
     } else {
       throw new Error("unreachable");
     }
@@ -233,12 +957,111 @@ class App {
     return eItem;
   }
 
-  #createInfo(item: Orchis.OcsItem): HTMLElement | undefined {
-    function toBin(arr: Uint8Array): string {
-      return Array.from(arr, (n) => n.toString(16).padStart(2, "0").slice(-2)).join(" ");
+  #retarget(item: Orchis.OcsItemFolder | Orchis.OcsItemLaunch): void {
+    let current;
+    try {
+      current = item.displayName();
+    } catch {
+      current = "";
+    }
+
+    const path = prompt("新しい参照先のパスを入力してください", current);
+    if (path === null || path === current) {
+      return;
+    }
+
+    try {
+      item.setTarget(path);
+    } catch (e) {
+      if (!(e instanceof idl.IdlError)) {
+        throw e;
+      }
+      alert(e.message);
+      return;
     }
 
+    // 表示中の情報を更新する
+    const eItem = this.#eLauncher.querySelector<HTMLElement>(".item.selected");
+    if (eItem) {
+      this.#selectItem(eItem, item);
+    }
+  }
+
+  #createItemIDInspector(itemID: Uint8Array): HTMLElement {
+    const segments = idl.inspectItemID(itemID);
+
+    const eInspector = document.createElement("div");
+    eInspector.classList.add("idl-inspector");
+
+    const eTable = document.createElement("table");
+    const eHead = eTable.createTHead().insertRow();
+    for (const title of ["オフセット", "cb", "種類", "内容", "処理"]) {
+      const eCell = document.createElement("th");
+      eCell.textContent = title;
+      eHead.append(eCell);
+    }
+
+    const eBody = eTable.createTBody();
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      const eRow = eBody.insertRow();
+      eRow.dataset.segment = i.toString();
+      eRow.insertCell().textContent = segment.offset.toString();
+      eRow.insertCell().textContent = segment.cb.toString();
+      eRow.insertCell().textContent = `0x${segment.type.toString(16).padStart(2, "0").toUpperCase()}`;
+      eRow.insertCell().textContent = segment.description;
+      eRow.insertCell().textContent = segment.consumer ?? "（未処理）";
+
+      for (const block of segment.extensionBlocks) {
+        const eBlockRow = eBody.insertRow();
+        eBlockRow.classList.add("extension-block");
+        eBlockRow.dataset.segment = i.toString();
+        eBlockRow.insertCell().textContent = (segment.offset + block.offset).toString();
+        eBlockRow.insertCell().textContent = block.size.toString();
+        eBlockRow.insertCell();
+        eBlockRow.insertCell().textContent = idl.describeExtensionBlock(block);
+        eBlockRow.insertCell();
+      }
+    }
+
+    // 各バイトがどの要素に属するかを色分けして表示する
+    const eHex = document.createElement("div");
+    eHex.classList.add("hex");
+    let segmentIndex = -1;
+    for (let offset = 0; offset < itemID.length; offset++) {
+      while (segmentIndex + 1 < segments.length && segments[segmentIndex + 1].offset <= offset) {
+        segmentIndex++;
+      }
+
+      const eByte = document.createElement("span");
+      eByte.textContent = itemID[offset].toString(16).padStart(2, "0");
+      if (segmentIndex >= 0) {
+        eByte.dataset.segment = segmentIndex.toString();
+        eByte.classList.add(segmentIndex % 2 === 0 ? "even" : "odd");
+      }
+      eHex.append(eByte, " ");
+    }
+
+    eBody.addEventListener("mouseover", (e) => {
+      const eRow = (e.target as HTMLElement | null)?.closest<HTMLElement>("tr");
+      for (const eByte of eHex.querySelectorAll<HTMLElement>("span")) {
+        const highlighted = eRow?.dataset.segment !== undefined && eByte.dataset.segment === eRow.dataset.segment;
+        eByte.classList.toggle("highlight", highlighted);
+      }
+    });
+    eBody.addEventListener("mouseleave", () => {
+      for (const eByte of eHex.querySelectorAll(".highlight")) {
+        eByte.classList.remove("highlight");
+      }
+    });
+
+    eInspector.append(eTable, eHex);
+    return eInspector;
+  }
+
+  #createInfo(item: Orchis.OcsItem): HTMLElement | undefined {
     const info = new Map<string, string>();
+    let itemID: Uint8Array | undefined;
     if (item instanceof Orchis.OcsItemSubmenu) {
       info.set("項目名", item.caption);
       info.set("種類", "サブメニュー");
@@ -254,9 +1077,11 @@ class App {
       info.set("項目名", item.caption);
       info.set("種類", "フォルダ項目");
       info.set("参照先", path);
+      setFileMetadata(info, item.itemID);
 
       if (this.debug) {
         info.set("ItemID", toBin(item.itemID));
+        itemID = item.itemID;
       }
     } else if (item instanceof Orchis.OcsItemLaunch) {
       let path;
@@ -272,27 +1097,76 @@ class App {
       info.set("パラメータ", item.parameter ?? "（なし）");
       info.set("実行時の大きさ", item.showCmdString() ?? "不明");
       info.set("実行時の動作", item.verbString());
+      setFileMetadata(info, item.itemID);
 
       if (this.debug) {
         info.set("ItemID", toBin(item.itemID));
+        itemID = item.itemID;
       }
     } else if (item instanceof Orchis.OcsItemSpecial) {
       info.set("項目名", item.caption);
       info.set("種類", "特殊項目");
       info.set("内容", item.description());
+    } else if (item instanceof Orchis.OcsItemBroken) {
+      info.set("項目名", item.caption() ?? "（不明）");
+      info.set("種類", "読み込めない項目");
+      info.set("原因", item.reason);
+    } else if (item instanceof Orchis.OcsItemUnknown) {
+      info.set("種類", "未対応項目");
+      info.set("Type", String(item.type() ?? "（なし）"));
     } else {
       return;
     }
 
-    const eInfo = document.createElement("dl");
+    const eInfo = document.createElement("div");
+
+    const eList = document.createElement("dl");
     for (const [k, v] of info.entries()) {
       const eTerm = document.createElement("dt");
       const eDetails = document.createElement("dd");
 
       eTerm.textContent = k;
       eDetails.textContent = v;
-      eInfo.append(eTerm, eDetails);
+      eList.append(eTerm, eDetails);
+    }
+    eInfo.append(eList);
+
+    if (item instanceof Orchis.OcsItemFolder || item instanceof Orchis.OcsItemLaunch) {
+      const eRetarget = document.createElement("button");
+      eRetarget.type = "button";
+      eRetarget.textContent = "参照先を変更";
+      eRetarget.addEventListener("click", () => this.#retarget(item));
+      eInfo.append(eRetarget);
+    }
+
+    if (itemID !== undefined) {
+      eInfo.append(this.#createItemIDInspector(itemID));
     }
+
+    // このツールが解釈しないキーを元の値のまま表示する
+    const extraValues = item.extraValues();
+    if (extraValues.length > 0) {
+      const eTable = document.createElement("table");
+      eTable.classList.add("raw-keys");
+      eTable.createCaption().textContent = "未対応のキー";
+
+      for (const [key, value] of extraValues) {
+        const eRow = eTable.insertRow();
+        eRow.insertCell().textContent = key;
+        if (typeof value === "number") {
+          eRow.insertCell().textContent = "dw";
+          eRow.insertCell().textContent = value.toString();
+        } else if (typeof value === "string") {
+          eRow.insertCell().textContent = "ws";
+          eRow.insertCell().textContent = value;
+        } else {
+          eRow.insertCell().textContent = "bn";
+          eRow.insertCell().textContent = toBin(value);
+        }
+      }
+      eInfo.append(eTable);
+    }
+
     return eInfo;
   }
 }
@@ -0,0 +1,57 @@
+// リトルエンディアンのバイナリを組み立てる
+
+export class ByteWriter {
+  #bytes: number[] = [];
+
+  get length(): number {
+    return this.#bytes.length;
+  }
+
+  uint8(n: number): void {
+    this.#bytes.push(n & 0xFF);
+  }
+
+  uint16(n: number): void {
+    this.#bytes.push(n & 0xFF, (n >> 8) & 0xFF);
+  }
+
+  uint32(n: number): void {
+    this.#bytes.push(n & 0xFF, (n >> 8) & 0xFF, (n >> 16) & 0xFF, (n >>> 24) & 0xFF);
+  }
+
+  // 書き込み済みの位置の値を書き換える。大きさなどを後から埋めるために使う
+  setUint16(offset: number, n: number): void {
+    this.#bytes[offset] = n & 0xFF;
+    this.#bytes[offset + 1] = (n >> 8) & 0xFF;
+  }
+
+  // 1601-01-01からの100ナノ秒単位（FILETIME）
+  fileTime(date: Date | undefined): void {
+    const time = date !== undefined ? BigInt(date.getTime() + 11644473600000) * 10000n : 0n;
+    this.uint32(Number(time & 0xFFFFFFFFn));
+    this.uint32(Number(time >> 32n));
+  }
+
+  bytes(data: ArrayLike<number>): void {
+    for (let i = 0; i < data.length; i++) {
+      this.#bytes.push(data[i]);
+    }
+  }
+
+  zeros(count: number): void {
+    for (let i = 0; i < count; i++) {
+      this.#bytes.push(0);
+    }
+  }
+
+  // UTF-16LEの文字列。終端のNULは付けない
+  utf16(text: string): void {
+    for (let i = 0; i < text.length; i++) {
+      this.uint16(text.charCodeAt(i));
+    }
+  }
+
+  build(): Uint8Array {
+    return Uint8Array.from(this.#bytes);
+  }
+}
@@ -58,6 +58,20 @@ export class CLSID {
     this.data4 = data4;
   }
 
+  toArray(): Uint8Array {
+    const arr = new Uint8Array(16);
+    arr[0] = this.data1 & 0xFF;
+    arr[1] = (this.data1 >>> 8) & 0xFF;
+    arr[2] = (this.data1 >>> 16) & 0xFF;
+    arr[3] = (this.data1 >>> 24) & 0xFF;
+    arr[4] = this.data2 & 0xFF;
+    arr[5] = (this.data2 >>> 8) & 0xFF;
+    arr[6] = this.data3 & 0xFF;
+    arr[7] = (this.data3 >>> 8) & 0xFF;
+    arr.set(this.data4, 8);
+    return arr;
+  }
+
   equals(other: CLSID): boolean {
     return (
       this.data1 === other.data1 &&
@@ -99,6 +113,7 @@ export const CLSID_RecycleBin = CLSID.parse("{645FF040-5081-101B-9F08-00AA002F95
 export const CLSID_ControlPanel = CLSID.parse("{21EC2020-3AEA-1069-A2DD-08002B30309D}");
 export const CLSID_Printers = CLSID.parse("{2227A280-3AEA-1069-A2DE-08002B30309D}");
 export const CLSID_MyDocuments = CLSID.parse("{450D8FBA-AD25-11D0-98A8-0800361B1103}");
+export const CLSID_NetworkPlaces = CLSID.parse("{208D2C60-3AEA-1069-A2D7-08002B30309D}");
 
 // ShObjIdl_core.h
 export const CLSID_ShellDesktop = CLSID.parse("{00021400-0000-0000-C000-000000000046}");
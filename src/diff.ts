@@ -0,0 +1,269 @@
+// 二つの設定ファイルの差分
+
+import * as idl from "./idl.js";
+import {
+  Ocs,
+  OcsItem,
+  OcsItemBroken,
+  OcsItemFolder,
+  OcsItemLaunch,
+  OcsItemSeparator,
+  OcsItemSpecial,
+  OcsItemSubmenu,
+  OcsItemUnknown,
+  OcsLauncher,
+  ocsItemCaption,
+  ocsItemKind,
+  serializeOcs,
+} from "./orchis.js";
+
+export type OcsDiffKind = "added" | "removed" | "moved" | "changed" | "unchanged";
+
+export type OcsFieldChange = {
+  field: "caption" | "target" | "parameter" | "verb" | "showCmd" | "id" | "section";
+  before: string | number | undefined;
+  after: string | number | undefined;
+};
+
+export type OcsItemDiff = {
+  // 位置が変わり、かつ値も変わった場合は"moved"となり、changesに変更点が入る
+  kind: OcsDiffKind;
+  before?: OcsItem;
+  after?: OcsItem;
+  beforeIndex?: number;
+  afterIndex?: number;
+  changes: OcsFieldChange[];
+  // サブメニューの子項目の差分
+  children: OcsItemDiff[];
+};
+
+export type OcsLauncherDiff = {
+  kind: Exclude<OcsDiffKind, "moved">;
+  title: string;
+  before?: OcsLauncher;
+  after?: OcsLauncher;
+  beforeIndex?: number;
+  afterIndex?: number;
+  items: OcsItemDiff[];
+};
+
+// 子孫を含めて変更があるかどうか
+export function hasChanges(diff: OcsItemDiff): boolean {
+  return diff.kind !== "unchanged" || diff.children.some(hasChanges);
+}
+
+// 同じ項目とみなすためのキー
+function itemKey(item: OcsItem): string {
+  return `${ocsItemKind(item)}:${ocsItemCaption(item) ?? ""}`;
+}
+
+function targetName(item: OcsItemLaunch | OcsItemFolder): string {
+  try {
+    return item.displayName();
+  } catch (e) {
+    if (!(e instanceof idl.IdlError)) {
+      throw e;
+    }
+    return Array.from(item.itemID, (n) => n.toString(16).padStart(2, "0")).join(" ");
+  }
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((n, i) => n === b[i]);
+}
+
+function compareItems(before: OcsItem, after: OcsItem): OcsFieldChange[] {
+  const changes: OcsFieldChange[] = [];
+  const compare = (field: OcsFieldChange["field"], a: string | number | undefined, b: string | number | undefined) => {
+    if (a !== b) {
+      changes.push({ field, before: a, after: b });
+    }
+  };
+
+  compare("caption", ocsItemCaption(before), ocsItemCaption(after));
+  if (before instanceof OcsItemLaunch && after instanceof OcsItemLaunch) {
+    if (!equalBytes(before.itemID, after.itemID)) {
+      changes.push({ field: "target", before: targetName(before), after: targetName(after) });
+    }
+    compare("parameter", before.parameter, after.parameter);
+    compare("verb", before.verb, after.verb);
+    compare("showCmd", before.showCmd, after.showCmd);
+  } else if (before instanceof OcsItemFolder && after instanceof OcsItemFolder) {
+    if (!equalBytes(before.itemID, after.itemID)) {
+      changes.push({ field: "target", before: targetName(before), after: targetName(after) });
+    }
+  } else if (before instanceof OcsItemSpecial && after instanceof OcsItemSpecial) {
+    compare("id", before.id, after.id);
+  } else if (
+    (before instanceof OcsItemUnknown && after instanceof OcsItemUnknown) ||
+    (before instanceof OcsItemBroken && after instanceof OcsItemBroken)
+  ) {
+    compare("section", serializeOcs({ Item: before.toSection() }), serializeOcs({ Item: after.toSection() }));
+  }
+  return changes;
+}
+
+// 並び順が保たれている対応の集合（最長増加部分列）を求め、それ以外を移動とみなす
+function findStayed(pairs: Array<[number, number]>): Set<number> {
+  // tails[k]は長さk+1の増加部分列の末尾となるpairsの添字
+  const tails: number[] = [];
+  const prev: number[] = [];
+  pairs.forEach(([, j], n) => {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (pairs[tails[mid]][1] < j) {
+        lo = mid + 1;
+      } else {
+        hi = mid;
+      }
+    }
+    prev[n] = lo > 0 ? tails[lo - 1] : -1;
+    tails[lo] = n;
+  });
+
+  const stayed = new Set<number>();
+  for (let n = tails.length > 0 ? tails[tails.length - 1] : -1; n !== -1; n = prev[n]) {
+    stayed.add(pairs[n][0]);
+  }
+  return stayed;
+}
+
+// 位置とキャプションで項目を対応付ける
+export function diffItems(before: OcsItem[], after: OcsItem[]): OcsItemDiff[] {
+  const matchOf = new Map<number, number>();
+  const matched = new Set<number>();
+  const link = (i: number, j: number) => {
+    matchOf.set(i, j);
+    matched.add(j);
+  };
+
+  // 同じ位置に同じ項目があるもの
+  for (let i = 0; i < Math.min(before.length, after.length); i++) {
+    if (itemKey(before[i]) === itemKey(after[i])) {
+      link(i, i);
+    }
+  }
+  // 別の位置に同じ項目があるもの（移動）
+  for (let i = 0; i < before.length; i++) {
+    if (matchOf.has(i)) {
+      continue;
+    }
+    const j = after.findIndex((item, j) => !matched.has(j) && itemKey(item) === itemKey(before[i]));
+    if (j !== -1) {
+      link(i, j);
+    }
+  }
+  // 同じ位置にある同じ種類の項目（キャプションの変更）
+  for (let i = 0; i < Math.min(before.length, after.length); i++) {
+    if (!(matchOf.has(i) || matched.has(i)) && ocsItemKind(before[i]) === ocsItemKind(after[i])) {
+      link(i, i);
+    }
+  }
+
+  const stayed = findStayed(Array.from(matchOf).sort((x, y) => x[0] - y[0]));
+  const diffs: Array<[order: number, diff: OcsItemDiff]> = [];
+  let lastOrder = -1;
+  for (let i = 0; i < before.length; i++) {
+    const j = matchOf.get(i);
+    if (j === undefined) {
+      // 削除された項目は直前の対応付いた項目の後ろに並べる
+      const removed = before[i];
+      diffs.push([lastOrder + 0.5, {
+        kind: "removed",
+        before: removed,
+        beforeIndex: i,
+        changes: [],
+        children: removed instanceof OcsItemSubmenu ? diffItems(removed.items, []) : [],
+      }]);
+      continue;
+    }
+
+    lastOrder = j;
+    const a = before[i];
+    const b = after[j];
+    const changes = compareItems(a, b);
+    const children = a instanceof OcsItemSubmenu && b instanceof OcsItemSubmenu ? diffItems(a.items, b.items) : [];
+    diffs.push([j, {
+      kind: !stayed.has(i) ? "moved" : changes.length > 0 ? "changed" : "unchanged",
+      before: a,
+      after: b,
+      beforeIndex: i,
+      afterIndex: j,
+      changes,
+      children,
+    }]);
+  }
+  for (let j = 0; j < after.length; j++) {
+    if (!matched.has(j)) {
+      const added = after[j];
+      diffs.push([j, {
+        kind: "added",
+        after: added,
+        afterIndex: j,
+        changes: [],
+        children: added instanceof OcsItemSubmenu ? diffItems([], added.items) : [],
+      }]);
+    }
+  }
+
+  // 安定ソートなので同じ順序の削除項目は元の順に並ぶ
+  return diffs.sort((x, y) => x[0] - y[0]).map(([, diff]) => diff);
+}
+
+// タイトルでランチャーを対応付け、それぞれの項目の差分を返す
+export function diffOcs(before: Ocs, after: Ocs): OcsLauncherDiff[] {
+  const used = new Set<number>();
+  const diffs: OcsLauncherDiff[] = [];
+
+  after.launchers.forEach((launcher, j) => {
+    const i = before.launchers.findIndex((l, i) => !used.has(i) && l.title === launcher.title);
+    if (i === -1) {
+      diffs.push({
+        kind: "added",
+        title: launcher.title,
+        after: launcher,
+        afterIndex: j,
+        items: diffItems([], launcher.items),
+      });
+      return;
+    }
+
+    used.add(i);
+    const items = diffItems(before.launchers[i].items, launcher.items);
+    diffs.push({
+      kind: items.some(hasChanges) ? "changed" : "unchanged",
+      title: launcher.title,
+      before: before.launchers[i],
+      after: launcher,
+      beforeIndex: i,
+      afterIndex: j,
+      items,
+    });
+  });
+  before.launchers.forEach((launcher, i) => {
+    if (!used.has(i)) {
+      diffs.push({
+        kind: "removed",
+        title: launcher.title,
+        before: launcher,
+        beforeIndex: i,
+        items: diffItems(launcher.items, []),
+      });
+    }
+  });
+
+  return diffs;
+}
+
+// 区切り線などキャプションのない項目の表示名
+export function itemLabel(item: OcsItem): string {
+  if (item instanceof OcsItemSeparator) {
+    return "――――";
+  }
+  if (item instanceof OcsItemUnknown) {
+    return "未対応項目";
+  }
+  return ocsItemCaption(item) ?? "読み込めない項目";
+}
@@ -0,0 +1,182 @@
+// 設定ファイルの文字コードの判別と変換
+
+export type TextEncoding = "utf-8" | "utf-16le" | "utf-16be" | "shift_jis";
+
+export const TEXT_ENCODINGS: Array<[TextEncoding, string]> = [
+  ["utf-8", "UTF-8"],
+  ["utf-16le", "UTF-16LE"],
+  ["utf-16be", "UTF-16BE"],
+  ["shift_jis", "Shift_JIS"],
+];
+
+export type DecodedText = {
+  text: string;
+  encoding: TextEncoding;
+  // BOMが付いていたかどうか；書き出す際にも付ける
+  bom: boolean;
+};
+
+export class EncodingError extends Error {}
+
+const BOMS: Array<[TextEncoding, number[]]> = [
+  ["utf-8", [0xEF, 0xBB, 0xBF]],
+  ["utf-16le", [0xFF, 0xFE]],
+  ["utf-16be", [0xFE, 0xFF]],
+];
+
+function detectBOM(bytes: Uint8Array): TextEncoding | undefined {
+  for (const [encoding, bom] of BOMS) {
+    if (bom.every((b, i) => bytes[i] === b)) {
+      return encoding;
+    }
+  }
+  return undefined;
+}
+
+function bomLength(encoding: TextEncoding): number {
+  return BOMS.find(([e]) => e === encoding)?.[1].length ?? 0;
+}
+
+export function detectEncoding(bytes: Uint8Array): { encoding: TextEncoding; bom: boolean } {
+  const bomEncoding = detectBOM(bytes);
+  if (bomEncoding !== undefined) {
+    return { encoding: bomEncoding, bom: true };
+  }
+
+  // 設定ファイルはほぼASCIIのため、UTF-16なら上位か下位のどちらかにNULが偏る
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] === 0) {
+      if (i & 1) {
+        oddZeros++;
+      } else {
+        evenZeros++;
+      }
+    }
+  }
+  const half = bytes.length / 2;
+  if (oddZeros > half * 0.5 && oddZeros > evenZeros * 2) {
+    return { encoding: "utf-16le", bom: false };
+  }
+  if (evenZeros > half * 0.5 && evenZeros > oddZeros * 2) {
+    return { encoding: "utf-16be", bom: false };
+  }
+
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return { encoding: "utf-8", bom: false };
+  } catch {
+    return { encoding: "shift_jis", bom: false };
+  }
+}
+
+// encodingを省略した場合は自動判別する
+export function decodeText(bytes: Uint8Array, encoding?: TextEncoding): DecodedText {
+  let bom;
+  if (encoding === undefined) {
+    ({ encoding, bom } = detectEncoding(bytes));
+  } else {
+    bom = detectBOM(bytes) === encoding;
+  }
+
+  const body = bom ? bytes.subarray(bomLength(encoding)) : bytes;
+  return { text: new TextDecoder(encoding, { ignoreBOM: true }).decode(body), encoding, bom };
+}
+
+// TextEncoderはUTF-8しか扱えないため、Shift_JISはデコーダーから逆引き表を作る
+//
+// 同じ文字に複数の符号が割り当てられている場合（JIS X 0208とNEC特殊文字、IBM拡張文字の重複など）は、
+// WHATWG EncodingのShift_JISエンコーダーやWindowsのCP932と同じく次の順に優先する：
+// 1. 符号の小さいもの（∵はNEC特殊文字の0x879AやIBM拡張文字の0xFA5Bより0x81E6を、ⅠはIBM拡張文字の0xFA4Aより0x8754を使う）
+// 2. ただしNEC選定IBM拡張文字（0xED40〜0xEEFC）はIBM拡張文字（0xFA40〜0xFC4B）より後とする
+//
+// デコーダーが返す文字へ戻る符号のみを使うため、書き出した文字は必ず読み込み直せる。
+// 表はShift_JISで保存する際に一度だけ、約1万1千通りの符号を試して作る
+let shiftJISTable: Map<string, number[]> | undefined;
+
+function getShiftJISTable(): Map<string, number[]> {
+  if (shiftJISTable !== undefined) {
+    return shiftJISTable;
+  }
+
+  const table = new Map<string, number[]>();
+  const decoder = new TextDecoder("shift_jis", { fatal: true });
+  const add = (bytes: number[]) => {
+    try {
+      const c = decoder.decode(Uint8Array.from(bytes));
+      if (!table.has(c)) {
+        table.set(c, bytes);
+      }
+    } catch {
+      // 割り当てのない符号
+    }
+  };
+
+  for (let b = 0x00; b <= 0xDF; b++) {
+    if (b < 0x80 || b >= 0xA1) {
+      add([b]);
+    }
+  }
+
+  const leads = [];
+  for (let lead = 0x81; lead <= 0xFC; lead++) {
+    if ((lead < 0xA0 || lead > 0xDF) && lead !== 0xED && lead !== 0xEE) {
+      leads.push(lead);
+    }
+  }
+  // NEC選定IBM拡張文字はIBM拡張文字にない文字の場合のみ使う
+  leads.push(0xED, 0xEE);
+  for (const lead of leads) {
+    for (let trail = 0x40; trail <= 0xFC; trail++) {
+      if (trail !== 0x7F) {
+        add([lead, trail]);
+      }
+    }
+  }
+
+  return (shiftJISTable = table);
+}
+
+function encodeShiftJIS(text: string): number[] {
+  const table = getShiftJISTable();
+  const bytes: number[] = [];
+  for (const c of text) {
+    const code = table.get(c);
+    if (code === undefined) {
+      throw new EncodingError(`Shift_JISで表せない文字があります：${c}`);
+    }
+    bytes.push(...code);
+  }
+  return bytes;
+}
+
+function encodeUTF16(text: string, littleEndian: boolean): number[] {
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const n = text.charCodeAt(i);
+    if (littleEndian) {
+      bytes.push(n & 0xFF, n >> 8);
+    } else {
+      bytes.push(n >> 8, n & 0xFF);
+    }
+  }
+  return bytes;
+}
+
+export function encodeText(text: string, encoding: TextEncoding, bom = false): Uint8Array {
+  const prefix = bom ? BOMS.find(([e]) => e === encoding)?.[1] ?? [] : [];
+  switch (encoding) {
+    case "utf-8":
+      return Uint8Array.from([...prefix, ...new TextEncoder().encode(text)]);
+
+    case "utf-16le":
+      return Uint8Array.from([...prefix, ...encodeUTF16(text, true)]);
+
+    case "utf-16be":
+      return Uint8Array.from([...prefix, ...encodeUTF16(text, false)]);
+
+    case "shift_jis":
+      return Uint8Array.from(encodeShiftJIS(text));
+  }
+}
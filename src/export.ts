@@ -0,0 +1,303 @@
+// 設定ファイルの内容をJSON、CSV、Markdownとして書き出す
+
+import * as idl from "./idl.js";
+import {
+  Ocs,
+  OcsItem,
+  OcsItemBroken,
+  OcsItemFolder,
+  OcsItemLaunch,
+  OcsItemSeparator,
+  OcsItemSpecial,
+  OcsItemSubmenu,
+  OcsItemKind,
+  OcsItemUnknown,
+  OcsLauncher,
+  OcsSection,
+  ocsIsSection,
+  ocsItemKind,
+  ocsWithoutIndices,
+  serializeOcs,
+} from "./orchis.js";
+
+export type ItemIDEncoding = "hex" | "base64";
+
+// 項目が解釈しない値は、書き戻せるように.ocsの書式のまま持つ
+type JsonExtra = {
+  // [Item]セクションとしての値
+  extra?: string;
+};
+
+export type JsonItem =
+  | ({
+      type: "launch";
+      caption: string;
+      itemID: string;
+      // 参照先を解決できない場合はnull
+      path: string | null;
+      parameter?: string;
+      verb?: string;
+      showCmd: number;
+    } & JsonExtra)
+  | ({ type: "folder"; caption: string; itemID: string; path: string | null } & JsonExtra)
+  | ({ type: "separator" } & JsonExtra)
+  | ({ type: "submenu"; caption: string; items: JsonItem[] } & JsonExtra)
+  | ({ type: "special"; id: number; caption: string; description: string } & JsonExtra)
+  // 未対応の項目は元のセクションを.ocsの書式のまま持つ
+  | { type: "unknown"; section: string }
+  // 読み込めない項目も元のセクションを持つ（sectionは省略できる）
+  | { type: "broken"; caption: string | null; reason: string; section?: string };
+
+export type JsonLauncher = {
+  title: string;
+  items: JsonItem[];
+  // [Launcher]セクションとしての値。Menuの値は[Launcher\Menu]とする
+  extra?: string;
+};
+
+export type JsonOcs = {
+  itemIDEncoding: ItemIDEncoding;
+  launchers: JsonLauncher[];
+  // Launchers以外のセクションとLaunchersの値を.ocsの書式のまま持つ
+  sections?: string;
+};
+
+const KIND_NAMES: Record<OcsItemKind, string> = {
+  launch: "起動項目",
+  folder: "フォルダ項目",
+  separator: "区切り線",
+  submenu: "サブメニュー",
+  special: "特殊項目",
+  unknown: "未対応項目",
+  broken: "読み込めない項目",
+};
+
+function tryDisplayName(item: OcsItemLaunch | OcsItemFolder): string | undefined {
+  try {
+    return item.displayName();
+  } catch (e) {
+    if (!(e instanceof idl.IdlError)) {
+      throw e;
+    }
+    return undefined;
+  }
+}
+
+export function encodeItemID(itemID: Uint8Array, encoding: ItemIDEncoding): string {
+  if (encoding === "base64") {
+    return btoa(String.fromCharCode(...itemID));
+  }
+  return Array.from(itemID, (n) => n.toString(16).padStart(2, "0")).join("");
+}
+
+// omitのキーを除いた値を複製する。childの子セクションからは連番の子セクションとcountKeyを除き、値が残らなければ除く
+function sectionExtra(section: OcsSection, omit: string[], child: string, countKey: string): OcsSection {
+  const extra: OcsSection = {};
+  for (const [key, value] of Object.entries(section)) {
+    if (key !== child) {
+      if (!omit.includes(key)) {
+        extra[key] = value;
+      }
+    } else if (value !== undefined && ocsIsSection(value)) {
+      const childExtra = Object.fromEntries(Object.entries(ocsWithoutIndices(value)).filter(([k]) => k !== countKey));
+      if (Object.keys(childExtra).length > 0) {
+        extra[key] = childExtra;
+      }
+    }
+  }
+  return extra;
+}
+
+// 値がなければundefinedとする
+function extraToJson(name: string, section: OcsSection): string | undefined {
+  return Object.keys(section).length > 0 ? serializeOcs({ [name]: section }) : undefined;
+}
+
+function itemExtra(item: OcsItemLaunch | OcsItemFolder | OcsItemSeparator | OcsItemSubmenu | OcsItemSpecial): JsonExtra {
+  const extra = extraToJson("Item", Object.fromEntries(item.extraValues()));
+  return extra !== undefined ? { extra } : {};
+}
+
+function itemToJson(item: OcsItem, encoding: ItemIDEncoding): JsonItem {
+  if (item instanceof OcsItemLaunch) {
+    return {
+      type: "launch",
+      caption: item.caption,
+      itemID: encodeItemID(item.itemID, encoding),
+      path: tryDisplayName(item) ?? null,
+      parameter: item.parameter,
+      verb: item.verb,
+      showCmd: item.showCmd,
+      ...itemExtra(item),
+    };
+  }
+  if (item instanceof OcsItemFolder) {
+    return {
+      type: "folder",
+      caption: item.caption,
+      itemID: encodeItemID(item.itemID, encoding),
+      path: tryDisplayName(item) ?? null,
+      ...itemExtra(item),
+    };
+  }
+  if (item instanceof OcsItemSeparator) {
+    return { type: "separator", ...itemExtra(item) };
+  }
+  if (item instanceof OcsItemSubmenu) {
+    return {
+      type: "submenu",
+      caption: item.caption,
+      items: item.items.map((child) => itemToJson(child, encoding)),
+      ...itemExtra(item),
+    };
+  }
+  if (item instanceof OcsItemSpecial) {
+    return { type: "special", id: item.id, caption: item.caption, description: item.description(), ...itemExtra(item) };
+  }
+  if (item instanceof OcsItemUnknown) {
+    return { type: "unknown", section: serializeOcs({ Item: item.toSection() }) };
+  }
+  return {
+    type: "broken",
+    caption: item.caption() ?? null,
+    reason: item.reason,
+    section: extraToJson("Item", item.toSection()),
+  };
+}
+
+export function launcherToJson(launcher: OcsLauncher, encoding: ItemIDEncoding = "hex"): JsonLauncher {
+  return {
+    title: launcher.title,
+    items: launcher.items.map((item) => itemToJson(item, encoding)),
+    extra: extraToJson("Launcher", sectionExtra(launcher.section, ["Title"], "Menu", "Items")),
+  };
+}
+
+export function ocsToJson(ocs: Ocs, encoding: ItemIDEncoding = "hex"): JsonOcs {
+  const sections = sectionExtra(ocs.section, [], "Launchers", "LauncherCount");
+  return {
+    itemIDEncoding: encoding,
+    launchers: ocs.launchers.filter((l) => !l.placeholder).map((l) => launcherToJson(l, encoding)),
+    sections: Object.keys(sections).length > 0 ? serializeOcs(sections) : undefined,
+  };
+}
+
+export function exportJson(ocs: Ocs, encoding: ItemIDEncoding = "hex"): string {
+  return `${JSON.stringify(ocsToJson(ocs, encoding), undefined, 2)}\n`;
+}
+
+// サブメニューを含めて、項目を親の名前の並びと共に列挙する
+function* walkItems(items: OcsItem[], breadcrumb: string[]): Generator<[OcsItem, string[]]> {
+  for (const item of items) {
+    yield [item, breadcrumb];
+    if (item instanceof OcsItemSubmenu) {
+      yield* walkItems(item.items, [...breadcrumb, item.caption]);
+    }
+  }
+}
+
+const CSV_COLUMNS = ["ランチャー", "階層", "種類", "項目名", "参照先", "パラメータ", "実行時の動作", "実行時の大きさ", "ItemID"];
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function csvRow(item: OcsItem, launcher: OcsLauncher, breadcrumb: string[]): string[] {
+  const row = [launcher.title, breadcrumb.join(" > "), KIND_NAMES[ocsItemKind(item)]];
+  if (item instanceof OcsItemLaunch) {
+    row.push(
+      item.caption,
+      tryDisplayName(item) ?? "",
+      item.parameter ?? "",
+      item.verbString(),
+      item.showCmdString() ?? "",
+      encodeItemID(item.itemID, "hex"),
+    );
+  } else if (item instanceof OcsItemFolder) {
+    row.push(item.caption, tryDisplayName(item) ?? "", "", "", "", encodeItemID(item.itemID, "hex"));
+  } else if (item instanceof OcsItemSpecial) {
+    row.push(item.caption, item.description());
+  } else if (item instanceof OcsItemSubmenu) {
+    row.push(item.caption);
+  } else if (item instanceof OcsItemBroken) {
+    row.push(item.caption() ?? "");
+  }
+  while (row.length < CSV_COLUMNS.length) {
+    row.push("");
+  }
+  return row;
+}
+
+// 項目ごとに1行とする。改行はExcelで開けるようにCRLFとする
+export function exportCsv(ocs: Ocs): string {
+  const rows = [CSV_COLUMNS];
+  for (const launcher of ocs.launchers) {
+    for (const [item, breadcrumb] of walkItems(launcher.items, [])) {
+      rows.push(csvRow(item, launcher, breadcrumb));
+    }
+  }
+  return rows.map((row) => `${row.map(csvField).join(",")}\r\n`).join("");
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]<>#|]/g, "\\$&");
+}
+
+function markdownCode(text: string): string {
+  // 中にバッククォートがあれば、それより長い区切りで囲む
+  const fence = "`".repeat(Math.max(0, ...Array.from(text.matchAll(/`+/g), (m) => m[0].length)) + 1);
+  return fence.length > 1 ? `${fence} ${text} ${fence}` : `${fence}${text}${fence}`;
+}
+
+function markdownItem(item: OcsItem): string {
+  if (item instanceof OcsItemLaunch) {
+    const path = tryDisplayName(item);
+    const parts = [`**${escapeMarkdown(item.caption)}**`, path !== undefined ? markdownCode(path) : "（参照先不明）"];
+    if (item.parameter) {
+      parts.push(markdownCode(item.parameter));
+    }
+    if (item.verb === "runas") {
+      parts.push(`（${item.verbString()}）`);
+    }
+    return parts.join(" ");
+  }
+  if (item instanceof OcsItemFolder) {
+    const path = tryDisplayName(item);
+    return `**${escapeMarkdown(item.caption)}**（フォルダ） ${path !== undefined ? markdownCode(path) : "（参照先不明）"}`;
+  }
+  if (item instanceof OcsItemSeparator) {
+    return "――――";
+  }
+  if (item instanceof OcsItemSubmenu) {
+    return `**${escapeMarkdown(item.caption)}**`;
+  }
+  if (item instanceof OcsItemSpecial) {
+    return `**${escapeMarkdown(item.caption)}**（${item.description()}）`;
+  }
+  if (item instanceof OcsItemUnknown) {
+    return KIND_NAMES.unknown;
+  }
+  return `${escapeMarkdown(item.caption() ?? "")}（${KIND_NAMES.broken}：${escapeMarkdown(item.reason)}）`;
+}
+
+// ランチャーごとに見出しを付け、サブメニューを入れ子のリストとする
+export function exportMarkdown(ocs: Ocs): string {
+  const lines: string[] = [];
+  function appendItems(items: OcsItem[], depth: number): void {
+    for (const item of items) {
+      lines.push(`${"  ".repeat(depth)}- ${markdownItem(item)}`);
+      if (item instanceof OcsItemSubmenu) {
+        appendItems(item.items, depth + 1);
+      }
+    }
+  }
+
+  for (const launcher of ocs.launchers) {
+    if (lines.length > 0) {
+      lines.push("");
+    }
+    lines.push(`## ${escapeMarkdown(launcher.title)}`, "");
+    appendItems(launcher.items, 0);
+  }
+  return `${lines.join("\n")}\n`;
+}
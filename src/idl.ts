@@ -1,18 +1,25 @@
 // 参考：https://github.com/wine-mirror/wine/tree/wine-7.22/dlls/shell32
 
+import { ByteWriter } from "./bytes.js";
 import {
   CLSID,
   CLSID_ControlPanel,
+  CLSID_Internet,
   CLSID_MyComputer,
+  CLSID_MyDocuments,
+  CLSID_NetworkDomain,
   CLSID_NetworkExplorerFolder,
+  CLSID_NetworkPlaces,
+  CLSID_NetworkServer,
+  CLSID_NetworkShare,
   CLSID_Printers,
   CLSID_RecycleBin,
   CLSID_ShellDesktop,
-  FOLDERID_Favorites,
   Known_CLSID_ControlPanel,
   Known_CLSID_UsersFiles,
   Known_CLSID_UsersLibraries,
 } from "./clsid.js";
+import { findKnownFolderByName, getKnownFolder } from "./knownfolder.js";
 
 function readAsciiString(arr: Uint8Array): string {
   let text = "";
@@ -30,19 +37,336 @@ function readString(arr: Uint8Array): string {
   return text;
 }
 
+function readUint16(arr: Uint8Array, offset: number): number {
+  return arr[offset + 0] | (arr[offset + 1] << 8);
+}
+
+function readUint32(arr: Uint8Array, offset: number): number {
+  return (arr[offset + 0] | (arr[offset + 1] << 8) | (arr[offset + 2] << 16) | (arr[offset + 3] << 24)) >>> 0;
+}
+
+// MS-DOS形式の日時（UTC）をDateにする
+function dosDateTimeToDate(date: number, time: number): Date | undefined {
+  if (date === 0) {
+    return undefined;
+  }
+
+  const year = ((date >> 9) & 0x7F) + 1980;
+  const month = (date >> 5) & 0x0F;
+  const day = date & 0x1F;
+  const hour = (time >> 11) & 0x1F;
+  const minute = (time >> 5) & 0x3F;
+  const second = (time & 0x1F) * 2;
+  return new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+}
+
+const FILE_ATTRIBUTES: Array<[number, string]> = [
+  [0x0001, "読み取り専用"],
+  [0x0002, "隠しファイル"],
+  [0x0004, "システム"],
+  [0x0010, "ディレクトリ"],
+  [0x0020, "アーカイブ"],
+  [0x0040, "デバイス"],
+  [0x0080, "標準"],
+  [0x0100, "一時ファイル"],
+  [0x0200, "スパースファイル"],
+  [0x0400, "再解析ポイント"],
+  [0x0800, "圧縮"],
+  [0x1000, "オフライン"],
+  [0x2000, "インデックスなし"],
+  [0x4000, "暗号化"],
+];
+
+export const FILE_ATTRIBUTE_DIRECTORY = 0x0010;
+
+export function getFileAttributeNames(attributes: number): string[] {
+  const names = [];
+  for (const [flag, name] of FILE_ATTRIBUTES) {
+    if (attributes & flag) {
+      names.push(name);
+    }
+  }
+  return names;
+}
+
+export type FileMetadata = {
+  size: number;
+  attributes: number;
+  modified: Date | undefined;
+  created: Date | undefined;
+  accessed: Date | undefined;
+};
+
+// FILETIMEをDateにする
+function fileTimeToDate(arr: Uint8Array, offset: number): Date | undefined {
+  const low = readUint32(arr, offset);
+  const high = readUint32(arr, offset + 4);
+  if (low === 0 && high === 0) {
+    return undefined;
+  }
+
+  // 1601-01-01からの100ナノ秒単位
+  return new Date((high * 0x100000000 + low) / 10000 - 11644473600000);
+}
+
+// ファイル要素の末尾などに付く拡張ブロック
+//
+// 参考：https://github.com/libyal/libfwsi/blob/main/documentation/Windows%20Shell%20Item%20format.asciidoc
+export type ExtensionBlock = {
+  // 要素の先頭からのオフセット
+  offset: number;
+  size: number;
+  version: number;
+  signature: number;
+  data: Uint8Array;
+};
+
+export type FileEntryExtension = {
+  created: Date | undefined;
+  accessed: Date | undefined;
+  mftEntry: number | undefined;
+  mftSequence: number | undefined;
+  longName: string;
+  localizedName: string | undefined;
+};
+
+const EXTENSION_BLOCK_NAMES: Record<number, string | undefined> = {
+  0xBEEF0003: "シェルフォルダー",
+  0xBEEF0004: "ファイル情報",
+  0xBEEF0006: "ユーザー名",
+  0xBEEF0010: "プロパティストア",
+  0xBEEF0014: "URI",
+  0xBEEF0019: "フォルダー識別子",
+  0xBEEF0025: "ファイル日時",
+  0xBEEF0026: "ファイル日時",
+  0xBEEF0027: "プロパティストア",
+};
+
+// BEEF0004
+//   WORD size, version; DWORD signature;
+//   WORD creationDate, creationTime, accessDate, accessTime;
+//   WORD version3Offset;                          /* 長い名前のオフセット */
+//   version >= 7: WORD unknown; BYTE mft[8]; BYTE unknown[8]; WORD longStringSize;
+//   version >= 8: DWORD unknown;
+//   version >= 9: DWORD unknown;
+//   WCHAR longName[]; longStringSize > 0: localizedName[];
+//   WORD firstExtensionBlockOffset;
+export function parseFileEntryExtension(block: ExtensionBlock): FileEntryExtension | undefined {
+  if (block.signature !== 0xBEEF0004 || block.size < 20) {
+    return undefined;
+  }
+
+  const data = block.data;
+  const nameOffset = readUint16(data, 16);
+  if (nameOffset + 2 >= data.length) {
+    return undefined;
+  }
+
+  let mftEntry;
+  let mftSequence;
+  let longStringSize = 0;
+  if (block.version >= 7 && block.size >= 0x26) {
+    mftEntry = readUint32(data, 0x14) + readUint16(data, 0x18) * 0x100000000;
+    mftSequence = readUint16(data, 0x1A);
+    longStringSize = readUint16(data, 0x24);
+  }
+
+  const longName = readString(data.subarray(nameOffset, data.length - 2));
+
+  let localizedName;
+  if (longStringSize > 0) {
+    const localizedOffset = nameOffset + (longName.length + 1) * 2;
+    localizedName =
+      block.version >= 7
+        ? readString(data.subarray(localizedOffset, data.length - 2))
+        : readAsciiString(data.subarray(localizedOffset, data.length - 2));
+  }
+
+  return {
+    created: dosDateTimeToDate(readUint16(data, 8), readUint16(data, 10)),
+    accessed: dosDateTimeToDate(readUint16(data, 12), readUint16(data, 14)),
+    mftEntry,
+    mftSequence,
+    longName,
+    localizedName,
+  };
+}
+
+export function describeExtensionBlock(block: ExtensionBlock): string {
+  const signature = block.signature.toString(16).toUpperCase().padStart(8, "0");
+  const name = EXTENSION_BLOCK_NAMES[block.signature] ?? "不明";
+  const fields = [];
+
+  switch (block.signature) {
+    case 0xBEEF0004: {
+      const ext = parseFileEntryExtension(block);
+      if (ext !== undefined) {
+        fields.push(`長い名前=${ext.longName}`);
+        if (ext.localizedName !== undefined) {
+          fields.push(`ローカライズ名=${ext.localizedName}`);
+        }
+        if (ext.mftEntry !== undefined) {
+          fields.push(`MFT=${ext.mftEntry}（シーケンス${ext.mftSequence}）`);
+        }
+        if (ext.created !== undefined) {
+          fields.push(`作成=${ext.created.toISOString()}`);
+        }
+        if (ext.accessed !== undefined) {
+          fields.push(`アクセス=${ext.accessed.toISOString()}`);
+        }
+      }
+      break;
+    }
+
+    case 0xBEEF0003: {
+      const guid = CLSID.fromArray(block.data.subarray(8, 8 + 16));
+      if (guid !== undefined) {
+        fields.push(`GUID=${guid}`);
+      }
+      break;
+    }
+
+    case 0xBEEF0019: {
+      const guid1 = CLSID.fromArray(block.data.subarray(8, 8 + 16));
+      const guid2 = CLSID.fromArray(block.data.subarray(24, 24 + 16));
+      if (guid1 !== undefined && guid2 !== undefined) {
+        fields.push(`GUID=${guid1}`, `GUID=${guid2}`);
+      }
+      break;
+    }
+
+    case 0xBEEF0026: {
+      if (block.size >= 0x24) {
+        const times: Array<[string, Date | undefined]> = [
+          ["作成", fileTimeToDate(block.data, 0x0C)],
+          ["更新", fileTimeToDate(block.data, 0x14)],
+          ["アクセス", fileTimeToDate(block.data, 0x1C)],
+        ];
+        for (const [label, date] of times) {
+          if (date !== undefined) {
+            fields.push(`${label}=${date.toISOString()}`);
+          }
+        }
+      }
+      break;
+    }
+  }
+
+  const head = `拡張ブロック ${signature} v${block.version}（${name}）`;
+  return fields.length > 0 ? `${head}：${fields.join("、")}` : head;
+}
+
+// ネットワーク要素の種類（下位4ビット）
+const NETWORK_TYPE_DOMAIN = 0x01;
+const NETWORK_TYPE_SERVER = 0x02;
+const NETWORK_TYPE_SHARE = 0x03;
+
+const NETWORK_KINDS: Record<number, string | undefined> = {
+  [NETWORK_TYPE_DOMAIN]: "ドメイン",
+  [NETWORK_TYPE_SERVER]: "サーバー",
+  [NETWORK_TYPE_SHARE]: "共有",
+  0x06: "ネットワークプロバイダー",
+  0x07: "ネットワーク全体",
+};
+
+// MS-PROPSTORE：シリアライズされたプロパティストアの版（"1SPS"）
+const PROPERTY_STORAGE_VERSION = 0x53505331;
+const VT_LPWSTR = 0x1F;
+
+// 名前として使うプロパティ（先にあるものが優先）
+const NAME_PROPERTY_KEYS: Array<[CLSID, number]> = [
+  // PKEY_ItemNameDisplay
+  [CLSID.parse("{B725F130-47EF-101A-A5F1-02608C9EEBAC}"), 10],
+  // WPD_OBJECT_ORIGINAL_FILE_NAME
+  [CLSID.parse("{EF6B490D-5CD8-437A-AFFC-DA8B60EE4A3C}"), 12],
+  // WPD_OBJECT_NAME
+  [CLSID.parse("{EF6B490D-5CD8-437A-AFFC-DA8B60EE4A3C}"), 4],
+];
+
+// 要素に埋め込まれたプロパティストアから、指定したプロパティの文字列値を探す
+function findPropertyString(data: Uint8Array, formatID: CLSID, id: number): string | undefined {
+  for (let i = 4; i + 20 <= data.length; i++) {
+    if (readUint32(data, i) !== PROPERTY_STORAGE_VERSION) {
+      continue;
+    }
+
+    // typedef struct tagSerializedPropertyStorage {
+    //     DWORD cbStorage;    /*00*/
+    //     DWORD version;      /*04 "1SPS" */
+    //     GUID formatID;      /*08*/
+    //     BYTE values[1];     /*18*/
+    // } SerializedPropertyStorage;
+    const end = Math.min(i - 4 + readUint32(data, i - 4), data.length);
+    if (!CLSID.fromArray(data.subarray(i + 4, i + 20))?.equals(formatID)) {
+      continue;
+    }
+
+    // typedef struct tagSerializedPropertyValue {
+    //     DWORD cbValue;      /*00*/
+    //     DWORD id;           /*04*/
+    //     BYTE reserved;      /*08*/
+    //     WORD type;          /*09*/
+    //     WORD padding;       /*0B*/
+    //     BYTE value[1];      /*0D VT_LPWSTRなら文字数とNUL終端の文字列*/
+    // } SerializedPropertyValue;
+    for (let p = i + 20; p + 17 <= end; ) {
+      const cbValue = readUint32(data, p);
+      if (cbValue === 0 || p + cbValue > end) {
+        break;
+      }
+      if (readUint32(data, p + 4) === id && readUint16(data, p + 9) === VT_LPWSTR) {
+        const length = readUint32(data, p + 13);
+        return readString(data.subarray(p + 17, Math.min(p + 17 + length * 2, end)));
+      }
+      p += cbValue;
+    }
+  }
+  return undefined;
+}
+
+// UTF-16として読んだ文字列が名前らしいかどうか
+function isPrintable(text: string): boolean {
+  return /^[^\x00-\x1F\uD800-\uDFFF\uFFFE\uFFFF]+$/.test(text);
+}
+
+const CONTROL_PANEL_CATEGORIES: Record<number, string | undefined> = {
+  0: "すべてのコントロール パネル項目",
+  1: "デスクトップのカスタマイズ",
+  2: "ハードウェアとサウンド",
+  3: "ネットワークとインターネット",
+  4: "サウンド、音声、およびオーディオ デバイス",
+  5: "システムとセキュリティ",
+  6: "時計と地域",
+  7: "コンピューターの簡単操作",
+  8: "プログラム",
+  9: "ユーザー アカウント",
+  10: "セキュリティ センター",
+  11: "モバイル PC",
+};
+
 export class IdlError extends Error {}
 
+// 解釈できなかった要素などの診断メッセージの出力先
+let logger: (message: string) => void = (message) => console.log(message);
+
+// 診断メッセージの出力先を変える。コマンドラインツールなどで標準出力に混ざらないようにするために使う
+export function setLogger(log: (message: string) => void): void {
+  logger = log;
+}
+
 export class ItemIDList {
   data: Uint8Array;
+  offset: number;
   cb: number;
   type: number;
 
-  constructor(data: Uint8Array) {
+  constructor(data: Uint8Array, offset = 0) {
     if (data.length < 2) {
       throw new IdlError("ItemIDListの要素数が足りません");
     }
 
     this.data = data;
+    this.offset = offset;
     this.cb = this.data[0] | (this.data[1] << 8);
     this.type = this.cb === 0 ? 0 : this.data[2];
   }
@@ -51,7 +375,7 @@ export class ItemIDList {
     if (this.cb === 0) {
       return undefined;
     }
-    return new ItemIDList(this.data.subarray(this.cb));
+    return new ItemIDList(this.data.subarray(this.cb), this.offset + this.cb);
   }
 
   isDesktop(): boolean {
@@ -71,30 +395,67 @@ export class ItemIDList {
   getText(): string {
     const fileNameW = this.FileStructW_name();
     if (fileNameW !== undefined) {
+      // リソース参照（@shell32.dll,-21770など）ではないローカライズ名があればそちらを使う
+      const localizedName = this.getFileEntryExtension()?.localizedName;
+      if (localizedName && !localizedName.startsWith("@")) {
+        return localizedName;
+      }
       return fileNameW;
     }
 
-    switch (this.type) {
-      case 0x23:
-      case 0x25:
-      case 0x29:
-      case 0x2F:
-        return this.DriveStruct_driveName();
+    for (const decoder of getSegmentDecoders(this.type)) {
+      const text = decoder.getText(this);
+      if (text !== undefined) {
+        return text;
+      }
+    }
 
-      case 0x1F:
-      case 0x2E:
-      case 0x71:
-        const riid = this.type !== 0x71 ? this.GUIDStruct_guid() : this.ExtGUIDStruct_guid();
-        if (riid !== undefined) {
-          return getClassName(riid);
-        }
-        break;
+    const propertyName = this.PropertyStore_name();
+    if (propertyName !== undefined) {
+      return propertyName;
     }
 
-    console.log(`不明な種類のCLSID：${this.type.toString(16)}`);
+    logger(`不明な種類のCLSID：${this.type.toString(16)}`);
     return "";
   }
 
+  // 要素の内容を人が読める形で返す
+  describe(): string {
+    if (this.isDesktop()) {
+      return "終端";
+    }
+
+    const fileNameW = this.FileStructW_name();
+    if (fileNameW !== undefined) {
+      if (this.type === 0x74) {
+        const riid = this.DelegateStruct_clsid();
+        return `委任フォルダーのファイル：${fileNameW}（${riid !== undefined ? getClassName(riid) : "不明"}）`;
+      }
+      return `ファイル：${fileNameW}`;
+    }
+
+    for (const decoder of getSegmentDecoders(this.type)) {
+      if (decoder.describe !== undefined) {
+        const description = decoder.describe(this);
+        if (description !== undefined) {
+          return description;
+        }
+      } else {
+        const text = decoder.getText(this);
+        if (text !== undefined) {
+          return `${decoder.name}：${text}`;
+        }
+      }
+    }
+
+    const propertyName = this.PropertyStore_name();
+    if (propertyName !== undefined) {
+      return `プロパティストア：${propertyName}`;
+    }
+
+    return "不明";
+  }
+
   // typedef struct tagGUIDStruct
   // {
   //     BYTE dummy; /* offset 01 is unknown */
@@ -134,7 +495,26 @@ export class ItemIDList {
   //     /* Here are coming two strings. The first is the long name.
   //     The second the dos name when needed or just 0x00 */
   // } FileStruct;
-  //
+  FileStruct_fileSize(): number {
+    return readUint32(this.data, 4);
+  }
+
+  FileStruct_modified(): Date | undefined {
+    return dosDateTimeToDate(readUint16(this.data, 8), readUint16(this.data, 10));
+  }
+
+  FileStruct_fileAttribs(): number {
+    return readUint16(this.data, 12);
+  }
+
+  // 0x30〜0x3Fと、それに0x80が立った0xB0〜0xBFがファイルの要素
+  isFile(): boolean {
+    return (this.type & 0x70) === 0x30;
+  }
+
+  FileStruct_name(): string {
+    return readAsciiString(this.data.subarray(14, this.cb));
+  }
 
   // typedef struct tagFileStructW {
   //     WORD cbLen;
@@ -146,7 +526,7 @@ export class ItemIDList {
   //     BYTE dummy2[4];
   //     WCHAR wszName[1];
   // } FileStructW;
-  FileStructW_name(): string | undefined {
+  #fileStructW(): Uint8Array | undefined {
     const cbOffset = this.data[this.cb - 2] | (this.data[this.cb - 1] << 8);
     const fileStructW = this.data.subarray(cbOffset, this.cb);
     if ((cbOffset & 1) || cbOffset < 2 + 1 + 12 || cbOffset > this.cb - 2 - 22) {
@@ -158,13 +538,22 @@ export class ItemIDList {
       return undefined;
     }
     if (this.cb > cbOffset + cbLen) {
-      // 謎のデータが付いてることがある
+      // 後ろに別の拡張ブロックが付いてることがある（getExtensionBlocksを参照）
       const extraLen = fileStructW[cbLen + 0] | (fileStructW[cbLen + 1] << 8);
       if (this.cb !== cbOffset + cbLen + extraLen) {
         return undefined;
       }
     }
 
+    return fileStructW;
+  }
+
+  FileStructW_name(): string | undefined {
+    const fileStructW = this.#fileStructW();
+    if (fileStructW === undefined) {
+      return undefined;
+    }
+
     // Wineにおけるdummy2の先頭2バイト
     const nameOffset = fileStructW[16] | (fileStructW[17] << 8);
     if (nameOffset + 2 >= fileStructW.length) {
@@ -173,6 +562,78 @@ export class ItemIDList {
     return readString(fileStructW.subarray(nameOffset, this.cb));
   }
 
+  FileStructW_created(): Date | undefined {
+    const fileStructW = this.#fileStructW();
+    return fileStructW && dosDateTimeToDate(readUint16(fileStructW, 8), readUint16(fileStructW, 10));
+  }
+
+  FileStructW_lastAccessed(): Date | undefined {
+    const fileStructW = this.#fileStructW();
+    return fileStructW && dosDateTimeToDate(readUint16(fileStructW, 12), readUint16(fileStructW, 14));
+  }
+
+  // 末尾のWORDが指す位置から続く拡張ブロックを返す
+  getExtensionBlocks(): ExtensionBlock[] {
+    const blocks: ExtensionBlock[] = [];
+    if (this.cb < 2 + 8) {
+      return blocks;
+    }
+
+    let offset = readUint16(this.data, this.cb - 2);
+    if ((offset & 1) || offset < 3) {
+      return blocks;
+    }
+    while (offset + 8 <= this.cb) {
+      const size = readUint16(this.data, offset);
+      const signature = readUint32(this.data, offset + 4);
+      if (size < 8 || offset + size > this.cb || signature >>> 16 !== 0xBEEF) {
+        break;
+      }
+
+      blocks.push({
+        offset,
+        size,
+        version: readUint16(this.data, offset + 2),
+        signature,
+        data: this.data.subarray(offset, offset + size),
+      });
+      offset += size;
+    }
+    return blocks;
+  }
+
+  getFileEntryExtension(): FileEntryExtension | undefined {
+    for (const block of this.getExtensionBlocks()) {
+      const ext = parseFileEntryExtension(block);
+      if (ext !== undefined) {
+        return ext;
+      }
+    }
+    return undefined;
+  }
+
+  // ファイル要素であればFileStructとFileStructWから読み取ったメタデータを返す
+  getFileMetadata(): FileMetadata | undefined {
+    if (this.FileStructW_name() === undefined) {
+      return undefined;
+    }
+
+    // 委任フォルダーの要素はFileStructを内側に持つ
+    const fileStruct = this.DelegateStruct_inner() ?? this;
+    return {
+      size: fileStruct.FileStruct_fileSize(),
+      attributes: fileStruct.FileStruct_fileAttribs(),
+      modified: fileStruct.FileStruct_modified(),
+      created: this.FileStructW_created(),
+      accessed: this.FileStructW_lastAccessed(),
+    };
+  }
+
+  // 0x40〜0x4Fと、それに0x80が立った0xC0〜0xCFがネットワークの要素
+  isNetwork(): boolean {
+    return (this.type & 0x70) === 0x40;
+  }
+
   // struct
   // { WORD dummy;		/*01*/
   //   CHAR szNames[1];	/*03*/
@@ -186,39 +647,381 @@ export class ItemIDList {
   //     WCHAR name[1];
   // } ValueWStruct;
   //
+
+  // typedef struct tagPIDLCPanelStruct
+  // {
+  //     BYTE dummy;			/*01 is 0x00 */
+  //     DWORD iconIdx;		/*02 negative icon ID */
+  //     WORD offsDispName;		/*06*/
+  //     WORD offsComment;		/*08*/
+  //     CHAR szName[1];		/*10*/ /* terminated by 0x00, followed by display name and comment string */
+  // } PIDLCPanelStruct;
+  CPanelStruct_name(): string {
+    return readAsciiString(this.data.subarray(12, this.cb));
+  }
+
+  CPanelStruct_displayName(): string {
+    const offsDispName = readUint16(this.data, 8);
+    return readAsciiString(this.data.subarray(12 + offsDispName, this.cb));
+  }
+
+  // Wineにはない独自定義
+  // コントロールパネルのカテゴリ
+  // typedef struct tagCPanelCategoryStruct
+  // {
+  //     BYTE dummy;         /*01*/
+  //     DWORD signature;    /*02 0x39DE2184 */
+  //     DWORD categoryId;   /*06*/
+  // } CPanelCategoryStruct;
+  CPanelCategoryStruct_id(): number | undefined {
+    if (this.type !== 0x01 || this.cb < 2 + 1 + 9 || readUint32(this.data, 4) !== 0x39DE2184) {
+      return undefined;
+    }
+    return readUint32(this.data, 8);
+  }
+
+  // ReactOSにおける定義
+  // typedef struct tagPIDLPrinterStruct
+  // {
+  //     BYTE dummy;         /*01*/
+  //     DWORD Attributes;   /*02*/
+  //     WORD offsServer;    /*06*/
+  //     WCHAR szName[1];    /*08*/
+  // } PIDLPrinterStruct;
+  PrinterStruct_name(): string {
+    return readString(this.data.subarray(10, this.cb));
+  }
+
+  // Wineのごみ箱の要素はWIN32_FIND_DATAWをそのまま持つ
+  // typedef struct _WIN32_FIND_DATAW {
+  //     DWORD dwFileAttributes;     /*00*/
+  //     FILETIME ftCreationTime;    /*04*/
+  //     FILETIME ftLastAccessTime;  /*0C*/
+  //     FILETIME ftLastWriteTime;   /*14*/
+  //     DWORD nFileSizeHigh;        /*1C*/
+  //     DWORD nFileSizeLow;         /*20*/
+  //     DWORD dwReserved0;          /*24*/
+  //     DWORD dwReserved1;          /*28*/
+  //     WCHAR cFileName[MAX_PATH];  /*2C*/
+  //     WCHAR cAlternateFileName[14];
+  // } WIN32_FIND_DATAW;
+  Win32FindDataW_name(): string | undefined {
+    if (this.cb < 2 + 0x2C + 260 * 2) {
+      return undefined;
+    }
+    return readString(this.data.subarray(2 + 0x2C, 2 + 0x2C + 260 * 2));
+  }
+
+  // libfwsiにおける定義
+  // URIの要素（0x61）
+  // typedef struct tagURIStruct
+  // {
+  //     BYTE flags;         /*01 0x80ならUnicode */
+  //     WORD cbData;        /*02*/
+  //     BYTE data[cbData];  /*04 FTPの接続情報など */
+  //     CHAR szURI[1];      /*04 + cbData */
+  // } URIStruct;
+  URIStruct_uri(): string {
+    const uri = this.data.subarray(6 + readUint16(this.data, 4), this.cb);
+    return this.data[3] & 0x80 ? readString(uri) : readAsciiString(uri);
+  }
+
+  // libfwsiにおける定義
+  // 委任フォルダーの要素（0x74）
+  // typedef struct tagDelegateStruct
+  // {
+  //     BYTE dummy;         /*01*/
+  //     WORD cbInner;       /*02*/
+  //     DWORD signature;    /*04 "CFSF" */
+  //     BYTE inner[1];      /*08 FileStructを持つ要素 */
+  //     /* 以降、{5E591A74-DF96-48D3-8D67-1733BCEE28BA}と、要素のCLSIDが続く */
+  // } DelegateStruct;
+  #delegateInnerEnd(): number | undefined {
+    if (this.type !== 0x74 || this.cb < 2 + 1 + 11 || readAsciiString(this.data.subarray(6, 10)) !== "CFSF") {
+      return undefined;
+    }
+    const end = 6 + readUint16(this.data, 4);
+    return end <= this.cb ? end : undefined;
+  }
+
+  DelegateStruct_inner(): ItemIDList | undefined {
+    const end = this.#delegateInnerEnd();
+    if (end === undefined) {
+      return undefined;
+    }
+
+    const cb = readUint16(this.data, 10);
+    if (cb < 2 + 1 + 13 || 10 + cb > end) {
+      return undefined;
+    }
+    return new ItemIDList(this.data.subarray(10, 10 + cb), this.offset + 10);
+  }
+
+  DelegateStruct_clsid(): CLSID | undefined {
+    const end = this.#delegateInnerEnd();
+    if (end === undefined || end + 32 > this.cb) {
+      return undefined;
+    }
+    return CLSID.fromArray(this.data.subarray(end + 16, end + 32));
+  }
+
+  // ZIPフォルダー内の要素（0x52）は構造が公開されていないため、含まれるUTF-16文字列のうち最も長いものを名前とみなす
+  CompressedStruct_name(): string | undefined {
+    let name: string | undefined;
+    for (let i = 4; i + 2 < this.cb; i += 2) {
+      const text = readString(this.data.subarray(i, this.cb));
+      if (text.length > (name?.length ?? 0) && isPrintable(text)) {
+        name = text;
+      }
+    }
+    return name;
+  }
+
+  // ポータブルデバイス（MTP）などの、プロパティストアに名前を持つ要素
+  PropertyStore_name(): string | undefined {
+    const data = this.data.subarray(0, this.cb);
+    for (const [formatID, id] of NAME_PROPERTY_KEYS) {
+      const name = findPropertyString(data, formatID, id);
+      if (name) {
+        return name;
+      }
+    }
+    return undefined;
+  }
+}
+
+// 要素の種類（ItemIDListの3バイト目）ごとに名前を取り出す
+export type SegmentDecoder = {
+  readonly name: string;
+  // 扱う要素の種類
+  readonly types: readonly number[];
+  // 要素の名前を返す。扱えない要素ならundefinedを返す
+  getText(idl: ItemIDList): string | undefined;
+  // 要素の内容を人が読める形で返す。省略した場合はgetTextの結果を使う
+  describe?(idl: ItemIDList): string | undefined;
+};
+
+// 後から登録したものが先に来る
+const segmentDecoders: SegmentDecoder[] = [];
+
+// 要素の種類に対応するデコーダーを登録する；同じ種類では後から登録したものが優先される
+export function registerSegmentDecoder(decoder: SegmentDecoder): void {
+  segmentDecoders.unshift(decoder);
+}
+
+function getSegmentDecoders(type: number): SegmentDecoder[] {
+  return segmentDecoders.filter((decoder) => decoder.types.includes(type));
+}
+
+// lowから始まる16種類と、それに0x80が立った16種類
+function typeRange(low: number): number[] {
+  return Array.from({ length: 32 }, (_, i) => (i < 16 ? low + i : low + 0x80 + i - 16));
+}
+
+const DriveDecoder = new class implements SegmentDecoder {
+  readonly name = "Drive";
+  readonly types = [0x23, 0x25, 0x29, 0x2F];
+
+  getText(idl: ItemIDList): string {
+    return idl.DriveStruct_driveName();
+  }
+
+  describe(idl: ItemIDList): string {
+    return `ドライブ：${idl.DriveStruct_driveName()}`;
+  }
+};
+
+const GUIDDecoder = new class implements SegmentDecoder {
+  readonly name = "GUID";
+  readonly types = [0x1F, 0x2E, 0x71];
+
+  getText(idl: ItemIDList): string | undefined {
+    // ポータブルデバイスの要素はGUIDの位置にGUIDがないため、プロパティストアの名前を優先する
+    const propertyName = idl.type === 0x2E ? idl.PropertyStore_name() : undefined;
+    if (propertyName !== undefined) {
+      return propertyName;
+    }
+
+    const riid = idl.getCLSID();
+    return riid && getClassName(riid);
+  }
+
+  describe(idl: ItemIDList): string | undefined {
+    const propertyName = idl.type === 0x2E ? idl.PropertyStore_name() : undefined;
+    if (propertyName !== undefined) {
+      return `プロパティストア：${propertyName}`;
+    }
+
+    const riid = idl.getCLSID();
+    if (riid === undefined) {
+      return undefined;
+    }
+    const knownFolder = getKnownFolder(riid);
+    if (knownFolder?.canonicalName !== undefined) {
+      return `GUID：${riid}（${knownFolder.displayName}、${knownFolder.canonicalName}）`;
+    }
+    return `GUID：${riid}（${getClassName(riid)}）`;
+  }
+};
+
+const ControlPanelCategoryDecoder = new class implements SegmentDecoder {
+  readonly name = "ControlPanelCategory";
+  readonly types = [0x01];
+
+  getText(idl: ItemIDList): string | undefined {
+    const categoryId = idl.CPanelCategoryStruct_id();
+    return categoryId !== undefined ? CONTROL_PANEL_CATEGORIES[categoryId] ?? `カテゴリ${categoryId}` : undefined;
+  }
+
+  describe(idl: ItemIDList): string | undefined {
+    const categoryId = idl.CPanelCategoryStruct_id();
+    if (categoryId === undefined) {
+      return undefined;
+    }
+    return `コントロールパネルのカテゴリ：${CONTROL_PANEL_CATEGORIES[categoryId] ?? categoryId}`;
+  }
+};
+
+const NetworkDecoder = new class implements SegmentDecoder {
+  readonly name = "Network";
+  readonly types = typeRange(0x40);
+
+  getText(idl: ItemIDList): string {
+    return idl.NetworkStruct_name();
+  }
+
+  describe(idl: ItemIDList): string {
+    const kind = NETWORK_KINDS[idl.type & 0x0F] ?? "ネットワーク";
+    return `${kind}：${idl.NetworkStruct_name()}`;
+  }
+};
+
+// 拡張ブロックのない古い形式やFTPのファイル要素
+const FileDecoder = new class implements SegmentDecoder {
+  readonly name = "File";
+  readonly types = typeRange(0x30);
+
+  getText(idl: ItemIDList): string {
+    return idl.FileStruct_name();
+  }
+
+  describe(idl: ItemIDList): string {
+    return `ファイル：${idl.FileStruct_name()}`;
+  }
+};
+
+const CompressedDecoder = new class implements SegmentDecoder {
+  readonly name = "Compressed";
+  readonly types = [0x52];
+
+  getText(idl: ItemIDList): string | undefined {
+    return idl.CompressedStruct_name();
+  }
+
+  describe(idl: ItemIDList): string | undefined {
+    const name = idl.CompressedStruct_name();
+    return name !== undefined ? `ZIPフォルダー内：${name}` : undefined;
+  }
+};
+
+const URIDecoder = new class implements SegmentDecoder {
+  readonly name = "URI";
+  readonly types = [0x61];
+
+  getText(idl: ItemIDList): string {
+    return idl.URIStruct_uri();
+  }
+
+  describe(idl: ItemIDList): string {
+    return `URI：${idl.URIStruct_uri()}`;
+  }
+};
+
+const DelegateDecoder = new class implements SegmentDecoder {
+  readonly name = "Delegate";
+  readonly types = [0x74];
+
+  getText(idl: ItemIDList): string | undefined {
+    return idl.DelegateStruct_inner()?.FileStruct_name();
+  }
+
+  describe(idl: ItemIDList): string | undefined {
+    const inner = idl.DelegateStruct_inner();
+    return inner !== undefined ? `委任フォルダーのファイル：${inner.FileStruct_name()}` : undefined;
+  }
+};
+
+for (const decoder of [
+  DriveDecoder,
+  GUIDDecoder,
+  ControlPanelCategoryDecoder,
+  NetworkDecoder,
+  FileDecoder,
+  CompressedDecoder,
+  URIDecoder,
+  DelegateDecoder,
+]) {
+  registerSegmentDecoder(decoder);
 }
 
-class Path {
+export class Path {
   path = "";
+  // 要素のオフセットとそれを処理したItemの名前
+  consumers = new Map<number, string>();
 
-  append(path: string): void {
-    if (this.path && !this.path.endsWith("\\")) {
-      this.path += "\\";
+  consume(item: Item, idl: ItemIDList): void {
+    if (!this.consumers.has(idl.offset)) {
+      this.consumers.set(idl.offset, item.name);
+    }
+  }
+
+  append(path: string, separator = "\\"): void {
+    if (this.path && !this.path.endsWith(separator)) {
+      this.path += separator;
     }
     this.path += path;
   }
 }
 
-type Item = {
+// CLSIDの要素に続く要素からパスを組み立てる
+export type Item = {
+  readonly name: string;
   buildPath(path: Path, idl: ItemIDList): void;
 };
 
+// コントロールパネルの子要素の名前をパスに加え、次の要素を返す
+function appendControlPanelChild(path: Path, item: Item, idl: ItemIDList): ItemIDList | undefined {
+  path.consume(item, idl);
+
+  const categoryId = idl.CPanelCategoryStruct_id();
+  const clsid = idl.getCLSID();
+  if (categoryId !== undefined) {
+    path.append(CONTROL_PANEL_CATEGORIES[categoryId] ?? `カテゴリ${categoryId}`);
+  } else if (clsid !== undefined) {
+    path.append(getClassName(clsid));
+  } else if (idl.type === 0x00) {
+    // .cplのアプレット
+    path.append(idl.CPanelStruct_displayName() || idl.CPanelStruct_name());
+  } else {
+    path.append(idl.getText());
+  }
+
+  return idl.getNext();
+}
+
 const ControlPanel = new class implements Item {
+  readonly name = "ControlPanel";
+
   buildPath(path: Path, idl: ItemIDList): void {
+    path.consume(this, idl);
+
     path.append(getClassName(CLSID_ControlPanel));
 
     if (idl.isDesktop()) {
       return;
     }
 
-    const clsid = idl.getCLSID();
-    if (clsid !== undefined) {
-      path.append(getClassName(clsid));
-    } else {
-      path.append(idl.getText());
-    }
-
-    const next = idl.getNext();
+    const next = appendControlPanelChild(path, this, idl);
     if (next !== undefined) {
       FS.buildPath(path, next);
     }
@@ -226,7 +1029,11 @@ const ControlPanel = new class implements Item {
 };
 
 const Desktop = new class implements Item {
+  readonly name = "Desktop";
+
   buildPath(path: Path, idl: ItemIDList): void {
+    path.consume(this, idl);
+
     if (idl.isDesktop()) {
       path.append(getClassName(CLSID_ShellDesktop));
       return;
@@ -255,14 +1062,21 @@ const Desktop = new class implements Item {
 
       // 未登録CLSIDならパスに追加して次に回す
       path.append(getClassName(clsid));
+      FS.buildPath(path, next);
+      return;
     }
 
-    FS.buildPath(path, next);
+    // CLSIDでない要素（デスクトップ上のファイルやURIなど）はそのまま処理する
+    FS.buildPath(path, idl);
   }
 };
 
 const MyComputer = new class implements Item {
+  readonly name = "MyComputer";
+
   buildPath(path: Path, idl: ItemIDList): void {
+    path.consume(this, idl);
+
     if (idl.isDesktop()) {
       path.append(getClassName(CLSID_MyComputer));
       return;
@@ -278,7 +1092,16 @@ const MyComputer = new class implements Item {
 };
 
 const FS = new class implements Item {
+  readonly name = "FS";
+
   buildPath(path: Path, idl: ItemIDList): void {
+    if (idl.type === 0x61) {
+      URI.buildPath(path, idl);
+      return;
+    }
+
+    path.consume(this, idl);
+
     if (idl.isDesktop()) {
       return;
     }
@@ -292,46 +1115,116 @@ const FS = new class implements Item {
   }
 };
 
-const NetworkExplorerFolder = new class implements Item {
+// URIの要素に続く要素（FTPのフォルダーなど）は/で区切る
+const URI = new class implements Item {
+  readonly name = "URI";
+
   buildPath(path: Path, idl: ItemIDList): void {
-    const next = idl.getNext();
-    if (idl.isDesktop() || !next || next.isDesktop()) {
-      path.append(getClassName(CLSID_NetworkExplorerFolder));
+    path.consume(this, idl);
+    path.append(idl.getText());
+
+    for (let next = idl.getNext(); next !== undefined && !next.isDesktop(); next = next.getNext()) {
+      path.consume(this, next);
+      path.append(next.getText(), "/");
+    }
+  }
+};
+
+const Internet = new class implements Item {
+  readonly name = "Internet";
+
+  buildPath(path: Path, idl: ItemIDList): void {
+    if (idl.type === 0x61) {
+      // URIだけで場所を表せるため、インターネットの名前は付けない
+      URI.buildPath(path, idl);
       return;
     }
 
-    if (next.type === 0xC3) {
-      path.append(next.NetworkStruct_name());
+    path.consume(this, idl);
+    path.append(getClassName(CLSID_Internet));
+    FS.buildPath(path, idl);
+  }
+};
+
+// ドメイン・サーバー・共有と続くネットワークの要素をUNCパスにする
+const Network = new class implements Item {
+  readonly name = "Network";
+
+  buildPath(path: Path, idl: ItemIDList): void {
+    let unc: string | undefined;
+    let other: string | undefined;
+
+    let next: ItemIDList | undefined = idl;
+    for (; next !== undefined && !next.isDesktop() && next.isNetwork(); next = next.getNext()) {
+      path.consume(this, next);
+
+      const name = next.NetworkStruct_name();
+      switch (next.type & 0x0F) {
+        case NETWORK_TYPE_SERVER:
+          unc = name.startsWith("\\\\") ? name : `\\\\${name}`;
+          break;
+
+        case NETWORK_TYPE_SHARE:
+          // 通常はサーバー名を含む完全なUNCパスになっている
+          unc = name.startsWith("\\\\") || unc === undefined ? name : `${unc}\\${name}`;
+          break;
+
+        default:
+          // ドメインやネットワークプロバイダーはUNCパスに含まれない
+          other = name;
+          break;
+      }
+    }
+
+    if (unc !== undefined) {
+      path.append(unc);
     } else {
-      path.append(next.getText());
+      path.append(getClassName(CLSID_NetworkExplorerFolder));
+      if (other !== undefined) {
+        path.append(other);
+      }
     }
 
-    const next2 = next.getNext();
-    if (next2 !== undefined) {
-      FS.buildPath(path, next2);
+    if (next !== undefined) {
+      FS.buildPath(path, next);
     }
   }
 };
 
-const UsersLibraries = new class implements Item {
-  readonly #REGISTRY: Array<[CLSID, string]> = [
-    [CLSID.parse("{7B0DB17D-9CD2-4A93-9733-46CC89022E7C}"), "ドキュメント"],
-    [CLSID.parse("{2112AB0A-C86A-4FFE-A368-0DE96E47012E}"), "ミュージック"],
-    [CLSID.parse("{A990AE9F-A03B-4E80-94BC-9912D7504104}"), "ピクチャ"],
-    [CLSID.parse("{491E922F-5643-4AF4-A7EB-4E7A138D8174}"), "ビデオ"],
-    //
-  ];
-
-  #getLibraryName(clsid: CLSID): string | undefined {
-    for (const [target, name] of this.#REGISTRY) {
-      if (target.equals(clsid)) {
-        return name;
+const NetworkExplorerFolder = new class implements Item {
+  readonly name = "NetworkExplorerFolder";
+
+  buildPath(path: Path, idl: ItemIDList): void {
+    // ネットワークの要素の前に中身の分からない要素が付いていることがある
+    let network: ItemIDList | undefined = idl;
+    while (network !== undefined && !network.isDesktop() && !network.isNetwork()) {
+      network = network.getNext();
+    }
+
+    if (network === undefined || network.isDesktop()) {
+      path.consume(this, idl);
+      path.append(getClassName(CLSID_NetworkExplorerFolder));
+
+      const next = idl.getNext();
+      if (next !== undefined) {
+        FS.buildPath(path, next);
       }
+      return;
     }
-    return undefined;
+
+    for (let skipped = idl; skipped.offset < network.offset; skipped = skipped.getNext()!) {
+      path.consume(this, skipped);
+    }
+    Network.buildPath(path, network);
   }
+};
+
+const UsersLibraries = new class implements Item {
+  readonly name = "UsersLibraries";
 
   buildPath(path: Path, idl: ItemIDList): void {
+    path.consume(this, idl);
+
     path.append(getClassName(Known_CLSID_UsersLibraries));
     if (idl.isDesktop()) {
       return;
@@ -339,7 +1232,7 @@ const UsersLibraries = new class implements Item {
 
     let clsid;
     if (idl.type === 0x00 && (clsid = idl.ExtGUIDStruct_guid())) {
-      path.append(this.#getLibraryName(clsid) ?? `::${clsid}`);
+      path.append(getClassName(clsid));
     } else {
       path.append(idl.getText());
     }
@@ -352,21 +1245,11 @@ const UsersLibraries = new class implements Item {
 };
 
 const UsersFiles = new class implements Item {
-  readonly #REGISTRY: Array<[CLSID, string]> = [
-    [FOLDERID_Favorites, "お気に入り"],
-    //
-  ];
-
-  #getFolderName(clsid: CLSID): string | undefined {
-    for (const [target, name] of this.#REGISTRY) {
-      if (target.equals(clsid)) {
-        return name;
-      }
-    }
-    return undefined;
-  }
+  readonly name = "UsersFiles";
 
   buildPath(path: Path, idl: ItemIDList): void {
+    path.consume(this, idl);
+
     path.append(getClassName(Known_CLSID_UsersFiles));
     if (idl.isDesktop()) {
       return;
@@ -374,7 +1257,7 @@ const UsersFiles = new class implements Item {
 
     let clsid;
     if (idl.type === 0x00 && (clsid = idl.ExtGUIDStruct_guid())) {
-      path.append(this.#getFolderName(clsid) ?? `::${clsid}`);
+      path.append(getClassName(clsid));
     } else {
       path.append(idl.getText());
     }
@@ -387,14 +1270,77 @@ const UsersFiles = new class implements Item {
 };
 
 const ControlPanel2 = new class implements Item {
+  readonly name = "ControlPanel2";
+
   buildPath(path: Path, idl: ItemIDList): void {
+    path.consume(this, idl);
+
     path.append(getClassName(Known_CLSID_ControlPanel));
 
+    // カテゴリとその中の項目が続く
+    let next: ItemIDList | undefined = idl;
+    while (
+      next !== undefined &&
+      !next.isDesktop() &&
+      (next.CPanelCategoryStruct_id() !== undefined || next.getCLSID() !== undefined)
+    ) {
+      next = appendControlPanelChild(path, this, next);
+    }
+
+    if (next !== undefined) {
+      FS.buildPath(path, next);
+    }
+  }
+};
+
+const MyDocuments = new class implements Item {
+  readonly name = "MyDocuments";
+
+  buildPath(path: Path, idl: ItemIDList): void {
+    path.consume(this, idl);
+
+    path.append(getClassName(CLSID_MyDocuments));
+
+    FS.buildPath(path, idl);
+  }
+};
+
+const Printers = new class implements Item {
+  readonly name = "Printers";
+
+  buildPath(path: Path, idl: ItemIDList): void {
+    path.consume(this, idl);
+
+    path.append(getClassName(CLSID_Printers));
+
+    if (idl.isDesktop()) {
+      return;
+    }
+
+    path.append(idl.FileStructW_name() ?? idl.PrinterStruct_name());
+
+    const next = idl.getNext();
+    if (next !== undefined) {
+      FS.buildPath(path, next);
+    }
+  }
+};
+
+const RecycleBin = new class implements Item {
+  readonly name = "RecycleBin";
+
+  buildPath(path: Path, idl: ItemIDList): void {
+    path.consume(this, idl);
+
+    path.append(getClassName(CLSID_RecycleBin));
+
     if (idl.isDesktop()) {
       return;
     }
 
-    const next = idl.getNext()?.getNext();
+    path.append(idl.FileStructW_name() ?? idl.Win32FindDataW_name() ?? idl.getText());
+
+    const next = idl.getNext();
     if (next !== undefined) {
       FS.buildPath(path, next);
     }
@@ -410,11 +1356,11 @@ const CLSIDTable: Array<[CLSID, Item]> = [
   // [CLSID_DragDropHelper, IDropTargetHelper_Constructor],
   // [CLSID_FolderShortcut, FolderShortcut_Constructor],
   [CLSID_MyComputer, MyComputer],
-  // [CLSID_MyDocuments, MyDocuments_Constructor],
-  // [CLSID_NetworkPlaces, ISF_NetworkPlaces],
-  // [CLSID_Printers, Printers_Constructor],
+  [CLSID_MyDocuments, MyDocuments],
+  [CLSID_NetworkPlaces, NetworkExplorerFolder],
+  [CLSID_Printers, Printers],
   // [CLSID_QueryAssociations, QueryAssociations_Constructor],
-  // [CLSID_RecycleBin, RecycleBin_Constructor],
+  [CLSID_RecycleBin, RecycleBin],
   [CLSID_ShellDesktop, Desktop],
   // [CLSID_ShellFSFolder, IFSFolder_Constructor],
   // [CLSID_ShellItem, IShellItem_Constructor],
@@ -431,34 +1377,29 @@ const CLSIDTable: Array<[CLSID, Item]> = [
 
   // Wineにないやつ
   [CLSID_NetworkExplorerFolder, NetworkExplorerFolder],
+  [CLSID_Internet, Internet],
+  [CLSID_NetworkDomain, Network],
+  [CLSID_NetworkServer, Network],
+  [CLSID_NetworkShare, Network],
   [Known_CLSID_UsersLibraries, UsersLibraries],
   [Known_CLSID_UsersFiles, UsersFiles],
   [Known_CLSID_ControlPanel, ControlPanel2],
 ];
 
-const REGISTRY: Array<[CLSID, string]> = [
-  [CLSID_MyComputer, "PC（マイコンピュータ）"],
-  [CLSID_ShellDesktop, "デスクトップ"],
-  [CLSID_RecycleBin, "ごみ箱"],
-  [CLSID_ControlPanel, "すべてのコントロール パネル項目"],
-  [CLSID_NetworkExplorerFolder, "ネットワーク"],
-  [CLSID.parse("{B4FB3F98-C1EA-428D-A78A-D1F5659CBA93}"), "ホームグループ"],
-  [CLSID.parse("{A8CDFF1C-4878-43BE-B5FD-F8091C1C60D0}"), "ドキュメント"],
-  [CLSID.parse("{3ADD1653-EB32-4CB0-BBD7-DFA0ABB5ACCA}"), "ピクチャ"],
-  [CLSID.parse("{1CF1260C-4DD0-4EBB-811F-33C572699FDE}"), "ミュージック"],
-  [CLSID.parse("{A0953C92-50DC-43BF-BE83-3742FED03C9C}"), "ビデオ"],
-  [CLSID.parse("{D20EA4E1-3957-11D2-A40B-0C5020524153}"), "管理ツール"],
-  [CLSID_Printers, "プリンタ"],
-
-  // 自信ないやつ
-  [Known_CLSID_UsersLibraries, "ライブラリ"],
-  [Known_CLSID_UsersFiles, "ユーザープロファイル"],
-  [Known_CLSID_ControlPanel, "コントロールパネル"],
-  [CLSID.parse("{088E3905-0323-4B02-9826-5D99428E115F}"), "ダウンロード"],
-];
+// 後から登録したものが先に来る
+const itemRegistry: Array<[CLSID, Item]> = [];
+
+// CLSIDに対応するItemを登録する；同じCLSIDでは後から登録したものが優先される
+export function registerItem(clsid: CLSID, item: Item): void {
+  itemRegistry.unshift([clsid, item]);
+}
+
+for (const [clsid, item] of CLSIDTable) {
+  registerItem(clsid, item);
+}
 
 function getItem(clsid: CLSID): Item | undefined {
-  for (const [target, item] of CLSIDTable) {
+  for (const [target, item] of itemRegistry) {
     if (target.equals(clsid)) {
       return item;
     }
@@ -467,14 +1408,21 @@ function getItem(clsid: CLSID): Item | undefined {
   return undefined;
 }
 
-export function getClassName(clsid: CLSID): string {
-  for (const [t, s] of REGISTRY) {
-    if (t.equals(clsid)) {
-      return s;
-    }
+function getCLSIDFromClassName(name: string): CLSID | undefined {
+  if (name.startsWith("::")) {
+    return CLSID.fromString(name.slice(2));
   }
 
-  return `::${clsid}`;
+  return findKnownFolderByName(name)?.clsid;
+}
+
+export function getClassName(clsid: CLSID): string {
+  return getKnownFolder(clsid)?.displayName ?? `::${clsid}`;
+}
+
+// 残りの要素をファイルシステムのパスとして組み立てる；登録したItemから使う
+export function buildFileSystemPath(path: Path, idl: ItemIDList): void {
+  FS.buildPath(path, idl);
 }
 
 export function getPathFromIDList(idl: ItemIDList): string {
@@ -486,3 +1434,259 @@ export function getPathFromIDList(idl: ItemIDList): string {
 export function getPathFromItemID(itemID: Uint8Array): string {
   return getPathFromIDList(new ItemIDList(itemID));
 }
+
+export type IdlSegment = {
+  offset: number;
+  cb: number;
+  type: number;
+  description: string;
+  // この要素を処理したItemの名前。どのItemも処理しなかった場合はundefined
+  consumer: string | undefined;
+  extensionBlocks: ExtensionBlock[];
+};
+
+// ItemIDListを要素ごとに分解し、それぞれの内容と処理したItemを返す
+export function inspectItemID(itemID: Uint8Array): IdlSegment[] {
+  const path = new Path();
+  try {
+    Desktop.buildPath(path, new ItemIDList(itemID));
+  } catch (e) {
+    if (!(e instanceof IdlError)) {
+      throw e;
+    }
+  }
+
+  const segments: IdlSegment[] = [];
+  let idl: ItemIDList | undefined;
+  try {
+    for (idl = new ItemIDList(itemID); idl !== undefined; idl = idl.getNext()) {
+      if (idl.offset + Math.max(idl.cb, 2) > itemID.length) {
+        break;
+      }
+
+      segments.push({
+        offset: idl.offset,
+        cb: idl.cb,
+        type: idl.type,
+        description: idl.describe(),
+        consumer: path.consumers.get(idl.offset),
+        extensionBlocks: idl.isDesktop() ? [] : idl.getExtensionBlocks(),
+      });
+    }
+  } catch (e) {
+    if (!(e instanceof IdlError)) {
+      throw e;
+    }
+  }
+  return segments;
+}
+
+// ItemIDListの末尾にあるファイル要素のメタデータを返す
+export function getFileMetadataFromItemID(itemID: Uint8Array): FileMetadata | undefined {
+  let metadata: FileMetadata | undefined;
+  for (let idl: ItemIDList | undefined = new ItemIDList(itemID); idl !== undefined; idl = idl.getNext()) {
+    if (!idl.isDesktop()) {
+      metadata = idl.getFileMetadata();
+    }
+  }
+  return metadata;
+}
+
+// ここから下はgetPathFromItemIDの逆変換
+
+class ItemIDBuilder {
+  #out = new ByteWriter();
+
+  // cbを先頭に付けて要素を追加する。writeには要素の先頭（cbの位置）を渡す
+  push(write: (out: ByteWriter, start: number) => void): void {
+    const start = this.#out.length;
+    this.#out.uint16(0);
+    write(this.#out, start);
+    this.#out.setUint16(start, this.#out.length - start);
+  }
+
+  build(): Uint8Array {
+    // 終端の0x0000
+    this.#out.uint16(0);
+    return this.#out.build();
+  }
+}
+
+// ANSIの文字列はコードページに依存するため、ASCII以外の文字は書き出せない
+function writeAsciiString(out: ByteWriter, text: string): void {
+  if (!/^[\x00-\x7F]*$/.test(text)) {
+    throw new IdlError(`ASCII以外の文字を含む名前は使用できません：${text}`);
+  }
+  out.bytes(Array.from(text, (c) => c.charCodeAt(0)));
+  out.uint8(0);
+}
+
+function writeString(out: ByteWriter, text: string): void {
+  out.utf16(text);
+  out.uint16(0);
+}
+
+function isAscii(text: string): boolean {
+  return /^[\x20-\x7E]*$/.test(text);
+}
+
+// デスクトップ直下の要素の並び順
+const SORT_ORDERS: Array<[CLSID, number]> = [
+  [CLSID_MyComputer, 0x50],
+  [CLSID_NetworkExplorerFolder, 0x58],
+];
+
+function pushGUIDStruct(builder: ItemIDBuilder, clsid: CLSID): void {
+  const sortOrder = SORT_ORDERS.find(([target]) => target.equals(clsid))?.[1] ?? 0x00;
+  builder.push((out) => {
+    out.uint8(0x1F);
+    out.uint8(sortOrder);
+    out.bytes(clsid.toArray());
+  });
+}
+
+function pushDriveStruct(builder: ItemIDBuilder, drive: string): void {
+  builder.push((out, start) => {
+    out.uint8(0x2F);
+    // 名前はNULで埋めた20バイトとし、その後に2バイトの0が続く
+    writeAsciiString(out, `${drive.toUpperCase()}:\\`);
+    out.zeros(start + 3 + 20 + 2 - out.length);
+  });
+}
+
+function pushNetworkStruct(builder: ItemIDBuilder, type: number, name: string): void {
+  builder.push((out) => {
+    out.uint8(type);
+    out.uint16(0);
+    writeAsciiString(out, name);
+  });
+}
+
+// 付加情報のないUnicodeのURIStructを書き出す
+function pushURIStruct(builder: ItemIDBuilder, uri: string): void {
+  builder.push((out) => {
+    out.uint8(0x61);
+    out.uint8(0x80);
+    out.uint16(0);
+    writeString(out, uri);
+  });
+}
+
+// FileStructとバージョン9のFileStructW（BEEF0004）を書き出す
+function pushFileStruct(builder: ItemIDBuilder, name: string, isDirectory: boolean): void {
+  // 8.3形式の名前は作れないため、ASCII以外を含む場合はUnicodeの名前とする
+  const unicode = !isAscii(name);
+  const type = (isDirectory ? 0x31 : 0x32) | (unicode ? 0x04 : 0x00);
+  const attributes = isDirectory ? FILE_ATTRIBUTE_DIRECTORY : 0x20;
+
+  builder.push((out, start) => {
+    out.uint8(type);
+    out.uint8(0x00);
+    out.zeros(4); // ファイルサイズ
+    out.zeros(4); // 更新日時
+    out.uint16(attributes);
+    if (unicode) {
+      writeString(out, name);
+    } else {
+      writeAsciiString(out, name);
+    }
+    if ((out.length - start) & 1) {
+      out.uint8(0);
+    }
+
+    const cbOffset = out.length - start;
+    out.uint16(0); // cbLen
+    out.uint16(9);
+    out.bytes([0x04, 0x00, 0xEF, 0xBE]);
+    out.zeros(4); // 作成日時
+    out.zeros(4); // 最終アクセス日時
+    out.uint16(0x2E); // 長い名前のオフセット
+    out.zeros(2);
+    out.zeros(8); // MFT
+    out.zeros(8);
+    out.zeros(2); // ローカライズ名なし
+    out.zeros(4);
+    out.zeros(4);
+    writeString(out, name);
+    out.uint16(cbOffset);
+    out.setUint16(start + cbOffset, out.length - start - cbOffset);
+  });
+}
+
+export type ItemIDOptions = {
+  // 最後の要素をディレクトリとする。省略時はパスが\で終わる場合のみディレクトリ
+  directory?: boolean;
+};
+
+// Windowsのパスから、getPathFromItemIDで同じパスに戻るItemIDListを作る
+//
+// 対応する形式：
+// - C:\dir\file
+// - \\server\share\dir\file
+// - ::{CLSID}\dir\file、あるいはgetClassNameが返す名前から始まるパス
+export function getItemIDFromPath(path: string, options: ItemIDOptions = {}): Uint8Array {
+  const builder = new ItemIDBuilder();
+  if (/^[A-Za-z][A-Za-z0-9+.-]+:\/\//.test(path)) {
+    // https://example.com/ などのURL
+    pushGUIDStruct(builder, CLSID_Internet);
+    pushURIStruct(builder, path);
+    return builder.build();
+  }
+
+  path = path.replaceAll("/", "\\");
+  const isDirectory = options.directory ?? path.endsWith("\\");
+
+  function pushFiles(names: string[]): void {
+    for (let i = 0; i < names.length; i++) {
+      pushFileStruct(builder, names[i], isDirectory || i < names.length - 1);
+    }
+  }
+  function splitNames(rest: string): string[] {
+    const names = rest.split("\\").filter((name) => name !== "");
+    if (names.some((name) => name === "." || name === ".." || /[<>:"|?*]/.test(name))) {
+      throw new IdlError(`パスに使用できない名前が含まれています：${path}`);
+    }
+    return names;
+  }
+
+  let m;
+  if ((m = path.match(/^([A-Za-z]):(?:\\(.*))?$/))) {
+    // C:\dir\file
+    pushGUIDStruct(builder, CLSID_MyComputer);
+    pushDriveStruct(builder, m[1]);
+    pushFiles(splitNames(m[2] ?? ""));
+  } else if ((m = path.match(/^\\\\([^\\]+)(?:\\([^\\]+))?(?:\\(.*))?$/))) {
+    // \\server\share\dir\file
+    const [, server, share, rest] = m;
+    pushGUIDStruct(builder, CLSID_NetworkExplorerFolder);
+    pushNetworkStruct(builder, 0x42, `\\\\${server}`);
+    if (share !== undefined) {
+      pushNetworkStruct(builder, 0xC3, `\\\\${server}\\${share}`);
+      pushFiles(splitNames(rest ?? ""));
+    }
+  } else {
+    // ::{CLSID}\dir\file
+    const [first, ...rest] = path.split("\\");
+    const clsid = getCLSIDFromClassName(first);
+    if (clsid === undefined) {
+      throw new IdlError(`パスの形式が不正です：${path}`);
+    }
+
+    const names = splitNames(rest.join("\\"));
+    const isDesktop = clsid.equals(CLSID_ShellDesktop);
+    if (!isDesktop) {
+      pushGUIDStruct(builder, clsid);
+    }
+    pushFiles(names);
+
+    // マイコンピュータのように子要素を独自の形式で持つフォルダーは、ファイルの要素を続けても同じパスに戻らないため作らない
+    const itemID = builder.build();
+    const expected = isDesktop ? names : [getClassName(clsid), ...names];
+    if (names.length > 0 && getPathFromItemID(itemID) !== expected.join("\\")) {
+      throw new IdlError(`${getClassName(clsid)}の下にはファイルのパスを作れません：${path}`);
+    }
+    return itemID;
+  }
+
+  return builder.build();
+}
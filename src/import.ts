@@ -0,0 +1,281 @@
+// JSONで書かれたランチャーの定義から設定ファイルを作る
+//
+// 書式はexport.tsのJsonOcsと同じ。ItemIDの代わりにpathだけを書いてもよい
+
+import type { ItemIDEncoding } from "./export.js";
+import * as idl from "./idl.js";
+import {
+  Ocs,
+  OcsItem,
+  OcsItemBroken,
+  OcsItemFolder,
+  OcsItemLaunch,
+  OcsItemSeparator,
+  OcsItemSpecial,
+  OcsItemSubmenu,
+  OcsItemUnknown,
+  OcsLauncher,
+  OcsDiagnostic,
+  OcsSection,
+  ocsIsSection,
+  parseOcs,
+} from "./orchis.js";
+
+export type JsonImportProblem = {
+  // 問題のある値の位置。例：$.launchers[0].items[2].caption
+  path: string;
+  message: string;
+};
+
+export class JsonImportError extends Error {
+  constructor(public problems: JsonImportProblem[]) {
+    super(problems.map((p) => `${p.path}：${p.message}`).join("\n"));
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function decodeItemID(text: string, encoding: ItemIDEncoding): Uint8Array | undefined {
+  if (encoding === "base64") {
+    if (!/^[A-Za-z0-9+/]*={0,2}$/.test(text) || text.length % 4 !== 0) {
+      return undefined;
+    }
+    return Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+  }
+
+  // 読みやすさのために空白で区切られていてもよい
+  const hex = text.replace(/\s/g, "");
+  if (!/^(?:[0-9A-Fa-f]{2})*$/.test(hex)) {
+    return undefined;
+  }
+  return Uint8Array.from(hex.match(/../g) ?? [], (b) => Number.parseInt(b, 16));
+}
+
+export function importJson(text: string): Ocs {
+  let root;
+  try {
+    root = JSON.parse(text);
+  } catch (e) {
+    if (!(e instanceof SyntaxError)) {
+      throw e;
+    }
+    throw new JsonImportError([{ path: "$", message: `JSONとして読み込めません：${e.message}` }]);
+  }
+  return importJsonValue(root);
+}
+
+// 問題はまとめて報告するため、見つかっても続けて検査する
+export function importJsonValue(root: unknown): Ocs {
+  const problems: JsonImportProblem[] = [];
+  function problem(path: string, message: string): undefined {
+    problems.push({ path, message });
+    return undefined;
+  }
+
+  function requireString(object: JsonObject, key: string, path: string): string | undefined {
+    const value = object[key];
+    return typeof value === "string" ? value : problem(`${path}.${key}`, "文字列が必要です");
+  }
+  function optionalString(object: JsonObject, key: string, path: string): string | undefined {
+    const value = object[key];
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    return typeof value === "string" ? value : problem(`${path}.${key}`, "文字列が必要です");
+  }
+  function requireInteger(object: JsonObject, key: string, path: string): number | undefined {
+    const value = object[key];
+    return typeof value === "number" && Number.isInteger(value) && value >= 0
+      ? value
+      : problem(`${path}.${key}`, "0以上の整数が必要です");
+  }
+
+  // .ocsの書式で書かれた文字列を読み込む。読み込めない行は黙って捨てずに問題とする
+  function parseOcsText(text: string, path: string): OcsSection {
+    const diagnostics: OcsDiagnostic[] = [];
+    const data = parseOcs(text, diagnostics);
+    for (const diagnostic of diagnostics) {
+      const line = diagnostic.line !== undefined ? `${diagnostic.line}行目：` : "";
+      problem(path, `${line}${diagnostic.message}`);
+    }
+    return data;
+  }
+
+  // .ocsの書式で書かれたnameセクションを読み込む。省略された場合は空のセクションとする
+  function parseSection(object: JsonObject, key: string, path: string, name: string): OcsSection | undefined {
+    const text = optionalString(object, key, path);
+    if (text === undefined) {
+      return object[key] === undefined || object[key] === null ? {} : undefined;
+    }
+    const section = parseOcsText(text, `${path}.${key}`)[name];
+    if (!(section !== undefined && ocsIsSection(section))) {
+      return problem(`${path}.${key}`, `[${name}]セクションがありません`);
+    }
+    return section;
+  }
+
+  function parseTarget(object: JsonObject, path: string, directory: boolean): Uint8Array | undefined {
+    const itemID = object["itemID"];
+    if (itemID !== undefined && itemID !== null) {
+      if (typeof itemID !== "string") {
+        return problem(`${path}.itemID`, "文字列が必要です");
+      }
+      return decodeItemID(itemID, encoding) ?? problem(`${path}.itemID`, `${encoding}として読み込めません`);
+    }
+
+    const target = object["path"];
+    if (typeof target !== "string") {
+      return problem(path, "itemIDかpathのどちらかが必要です");
+    }
+    try {
+      return idl.getItemIDFromPath(target, { directory });
+    } catch (e) {
+      if (!(e instanceof idl.IdlError)) {
+        throw e;
+      }
+      return problem(`${path}.path`, e.message);
+    }
+  }
+
+  function parseItems(value: unknown, path: string): OcsItem[] {
+    if (!Array.isArray(value)) {
+      problem(path, "配列が必要です");
+      return [];
+    }
+
+    const items: OcsItem[] = [];
+    value.forEach((item, i) => {
+      const ocsItem = parseItem(item, `${path}[${i}]`);
+      if (ocsItem !== undefined) {
+        items.push(ocsItem);
+      }
+    });
+    return items;
+  }
+
+  function parseItem(item: unknown, path: string): OcsItem | undefined {
+    if (!isObject(item)) {
+      return problem(path, "オブジェクトが必要です");
+    }
+
+    switch (item["type"]) {
+      case "launch": {
+        const caption = requireString(item, "caption", path);
+        const itemID = parseTarget(item, path, false);
+        const parameter = optionalString(item, "parameter", path);
+        const verb = optionalString(item, "verb", path);
+        const showCmd = item["showCmd"] === undefined ? 1 : requireInteger(item, "showCmd", path);
+        const extra = parseSection(item, "extra", path, "Item");
+        if (caption === undefined || itemID === undefined || showCmd === undefined || extra === undefined) {
+          return undefined;
+        }
+        return new OcsItemLaunch(itemID, caption, parameter, verb, showCmd, extra);
+      }
+
+      case "folder": {
+        const caption = requireString(item, "caption", path);
+        const itemID = parseTarget(item, path, true);
+        const extra = parseSection(item, "extra", path, "Item");
+        if (caption === undefined || itemID === undefined || extra === undefined) {
+          return undefined;
+        }
+        return new OcsItemFolder(itemID, caption, extra);
+      }
+
+      case "separator": {
+        const extra = parseSection(item, "extra", path, "Item");
+        return extra !== undefined ? new OcsItemSeparator(extra) : undefined;
+      }
+
+      case "submenu": {
+        const caption = requireString(item, "caption", path);
+        const items = parseItems(item["items"], `${path}.items`);
+        const extra = parseSection(item, "extra", path, "Item");
+        if (caption === undefined || extra === undefined) {
+          return undefined;
+        }
+        return new OcsItemSubmenu(caption, items, extra);
+      }
+
+      case "special": {
+        const id = requireInteger(item, "id", path);
+        const extra = parseSection(item, "extra", path, "Item");
+        if (id === undefined || extra === undefined) {
+          return undefined;
+        }
+        // 項目名を省略した場合は特殊項目の内容を項目名とする
+        const caption =
+          item["caption"] === undefined ? new OcsItemSpecial(id, "").description() : requireString(item, "caption", path);
+        return caption !== undefined ? new OcsItemSpecial(id, caption, extra) : undefined;
+      }
+
+      case "unknown": {
+        if (requireString(item, "section", path) === undefined) {
+          return undefined;
+        }
+        const section = parseSection(item, "section", path, "Item");
+        return section !== undefined ? new OcsItemUnknown(section) : undefined;
+      }
+
+      case "broken": {
+        // JSONとして書き出した内容をそのまま読み込めるように受け付ける。項目名は元のセクションにあるため型だけを確かめる。
+        // 元のセクションがなければ書き出せる内容がないため除く
+        optionalString(item, "caption", path);
+        const reason = optionalString(item, "reason", path) ?? "";
+        if (item["section"] === undefined || item["section"] === null) {
+          return undefined;
+        }
+        const section = parseSection(item, "section", path, "Item");
+        return section !== undefined ? new OcsItemBroken(reason, section) : undefined;
+      }
+
+      default:
+        return problem(`${path}.type`, `未対応の種類です：${JSON.stringify(item["type"]) ?? "（なし）"}`);
+    }
+  }
+
+  if (!isObject(root)) {
+    throw new JsonImportError([{ path: "$", message: "オブジェクトが必要です" }]);
+  }
+
+  let encoding: ItemIDEncoding = "hex";
+  const itemIDEncoding = root["itemIDEncoding"];
+  if (itemIDEncoding === "hex" || itemIDEncoding === "base64") {
+    encoding = itemIDEncoding;
+  } else if (itemIDEncoding !== undefined) {
+    problem("$.itemIDEncoding", '"hex"か"base64"が必要です');
+  }
+
+  const launchers: OcsLauncher[] = [];
+  const jsonLaunchers = root["launchers"];
+  if (!Array.isArray(jsonLaunchers)) {
+    problem("$.launchers", "配列が必要です");
+  } else {
+    jsonLaunchers.forEach((launcher, i) => {
+      const path = `$.launchers[${i}]`;
+      if (!isObject(launcher)) {
+        problem(path, "オブジェクトが必要です");
+        return;
+      }
+
+      const title = requireString(launcher, "title", path);
+      const items = parseItems(launcher["items"], `${path}.items`);
+      const extra = parseSection(launcher, "extra", path, "Launcher");
+      if (title !== undefined && extra !== undefined) {
+        launchers.push(new OcsLauncher(title, items, extra));
+      }
+    });
+  }
+
+  const sections = optionalString(root, "sections", "$");
+  const section = sections !== undefined ? parseOcsText(sections, "$.sections") : {};
+
+  if (problems.length > 0) {
+    throw new JsonImportError(problems);
+  }
+  return new Ocs(launchers, section);
+}
@@ -0,0 +1,306 @@
+// 既知のフォルダーやシェルのCLSIDと、その名前の対応表
+// 参考：https://learn.microsoft.com/ja-jp/windows/win32/shell/knownfolderid
+
+import { CLSID } from "./clsid.js";
+
+export type KnownFolder = {
+  clsid: CLSID;
+  // KNOWNFOLDERIDの正式名、あるいはcontrol.exe /nameで指定する正式名
+  canonicalName?: string;
+  displayName: string;
+  // 既定のパス（仮想フォルダーにはない）
+  path?: string;
+};
+
+export class KnownFolderError extends Error {}
+
+function entries(list: Array<[string, string, string, string?]>): KnownFolder[] {
+  return list.map(([clsid, canonicalName, displayName, path]) => ({
+    clsid: CLSID.parse(clsid),
+    canonicalName: canonicalName || undefined,
+    displayName,
+    path,
+  }));
+}
+
+// 名前からCLSIDを引く際は先にあるものが優先されるため、よく使われるものを先に置く
+const SHELL_FOLDERS = entries([
+  ["{20D04FE0-3AEA-1069-A2D8-08002B30309D}", "", "PC（マイコンピュータ）"],
+  ["{00021400-0000-0000-C000-000000000046}", "", "デスクトップ"],
+  ["{645FF040-5081-101B-9F08-00AA002F954E}", "", "ごみ箱"],
+  ["{21EC2020-3AEA-1069-A2DD-08002B30309D}", "", "すべてのコントロール パネル項目"],
+  ["{F02C1A0D-BE21-4350-88B0-7367FC96EF3C}", "", "ネットワーク"],
+  ["{208D2C60-3AEA-1069-A2D7-08002B30309D}", "", "ネットワーク"],
+  ["{B4FB3F98-C1EA-428D-A78A-D1F5659CBA93}", "", "ホームグループ"],
+  ["{A8CDFF1C-4878-43BE-B5FD-F8091C1C60D0}", "", "ドキュメント"],
+  ["{3ADD1653-EB32-4CB0-BBD7-DFA0ABB5ACCA}", "", "ピクチャ"],
+  ["{1CF1260C-4DD0-4EBB-811F-33C572699FDE}", "", "ミュージック"],
+  ["{A0953C92-50DC-43BF-BE83-3742FED03C9C}", "", "ビデオ"],
+  ["{2227A280-3AEA-1069-A2DE-08002B30309D}", "", "プリンタ"],
+  ["{450D8FBA-AD25-11D0-98A8-0800361B1103}", "", "ドキュメント"],
+  ["{871C5380-42A0-1069-A2EA-08002B30309D}", "", "インターネット"],
+  ["{679F85CB-0220-4080-B29B-5540CC05AAB6}", "", "クイック アクセス"],
+  ["{F874310E-B6B7-47DC-BC84-B9E6B38F5903}", "", "ホーム"],
+  ["{35786D3C-B075-49B9-88DD-029876E11C01}", "", "ポータブル デバイス"],
+  ["{5E591A74-DF96-48D3-8D67-1733BCEE28BA}", "", "委任フォルダー"],
+
+  // PC直下のフォルダー（Windows 10以降）
+  ["{D3162B92-9365-467A-956B-92703ACA08AF}", "", "ドキュメント"],
+  ["{24AD3AD4-A569-4530-98E1-AB02F9417AA8}", "", "ピクチャ"],
+  ["{3DFDF296-DBEC-4FB4-81D1-6A3438BCF4DE}", "", "ミュージック"],
+  ["{F86FA3AB-70D2-4FC7-9C99-FCBF05467F3A}", "", "ビデオ"],
+  ["{088E3905-0323-4B02-9826-5D99428E115F}", "", "ダウンロード"],
+  ["{0DB7E03F-FC29-4DC6-9020-FF41B59E513A}", "", "3D オブジェクト"],
+
+  // 自信ないやつ
+  ["{031E4825-7B94-4DC3-B131-E946B44C8DD5}", "", "ライブラリ"],
+  ["{59031A47-3F72-44A7-89C5-5595FE6B30EE}", "", "ユーザープロファイル"],
+  ["{26EE0668-A00A-44D7-9371-BEB064C98683}", "", "コントロールパネル"],
+]);
+
+// KnownFolders.h
+const KNOWN_FOLDERS = entries([
+  ["{008CA0B1-55B4-4C56-B8A8-4DE4B299D3BE}", "AccountPictures", "アカウントの画像", "%APPDATA%\\Microsoft\\Windows\\AccountPictures"],
+  ["{DE61D971-5EBC-4F02-A3A9-6C82895E5C04}", "AddNewProgramsFolder", "プログラムの取得"],
+  ["{724EF170-A42D-4FEF-9F26-B60E846FBA4F}", "Administrative Tools", "管理ツール", "%APPDATA%\\Microsoft\\Windows\\Start Menu\\Programs\\Administrative Tools"],
+  ["{B2C5E279-7ADD-439F-B28C-C41FE1BBF672}", "AppDataDesktop", "デスクトップ", "%LOCALAPPDATA%\\Desktop"],
+  ["{7BE16610-1F7F-44AC-BFF0-83E15F2FFCA1}", "AppDataDocuments", "ドキュメント", "%LOCALAPPDATA%\\Documents"],
+  ["{7CFBEFBC-DE1F-45AA-B843-A542AC536CC9}", "AppDataFavorites", "お気に入り", "%LOCALAPPDATA%\\Favorites"],
+  ["{559D40A3-A036-40FA-AF61-84CB430A4D34}", "AppDataProgramData", "ProgramData", "%LOCALAPPDATA%\\ProgramData"],
+  ["{A3918781-E5F2-4890-B3D9-A7E54332328C}", "Application Shortcuts", "Application Shortcuts", "%LOCALAPPDATA%\\Microsoft\\Windows\\Application Shortcuts"],
+  ["{1E87508D-89C2-42F0-8A7E-645A0F50CA58}", "AppsFolder", "アプリケーション"],
+  ["{A305CE99-F527-492B-8B1A-7E76FA98D6E4}", "AppUpdatesFolder", "インストールされた更新プログラム"],
+  ["{AB5FB87B-7CE2-4F83-915D-550846C9537B}", "Camera Roll", "カメラ ロール", "%USERPROFILE%\\Pictures\\Camera Roll"],
+  ["{9E52AB10-F80D-49DF-ACB8-4330F5687855}", "CD Burning", "CD 書き込み", "%LOCALAPPDATA%\\Microsoft\\Windows\\Burn\\Burn"],
+  ["{DF7266AC-9274-4867-8D55-3BD661DE872D}", "ChangeRemoveProgramsFolder", "プログラムと機能"],
+  ["{D0384E7D-BAC3-4797-8F14-CBA229B392B5}", "Common Administrative Tools", "管理ツール", "%ALLUSERSPROFILE%\\Microsoft\\Windows\\Start Menu\\Programs\\Administrative Tools"],
+  ["{C1BAE2D0-10DF-4334-BEDD-7AA20B227A9D}", "OEM Links", "OEM Links", "%ALLUSERSPROFILE%\\OEM Links"],
+  ["{0139D44E-6AFE-49F2-8690-3DAFCAE6FFB8}", "Common Programs", "プログラム", "%ALLUSERSPROFILE%\\Microsoft\\Windows\\Start Menu\\Programs"],
+  ["{A4115719-D62E-491D-AA7C-E74B8BE3B067}", "Common Start Menu", "スタート メニュー", "%ALLUSERSPROFILE%\\Microsoft\\Windows\\Start Menu"],
+  ["{82A5EA35-D9CD-47C5-9629-E15D2F714E6E}", "Common Startup", "スタートアップ", "%ALLUSERSPROFILE%\\Microsoft\\Windows\\Start Menu\\Programs\\StartUp"],
+  ["{B94237E7-57AC-4347-9151-B08C6C32D1F7}", "Common Templates", "テンプレート", "%ALLUSERSPROFILE%\\Microsoft\\Windows\\Templates"],
+  ["{0AC0837C-BBF8-452A-850D-79D08E667CA7}", "MyComputerFolder", "PC"],
+  ["{4BFEFB45-347D-4006-A5BE-AC0CB0567192}", "ConflictFolder", "競合"],
+  ["{6F0CD92B-2E97-45D1-88FF-B0D186B8DEDD}", "ConnectionsFolder", "ネットワーク接続"],
+  ["{56784854-C6CB-462B-8169-88E350ACB882}", "Contacts", "アドレス帳", "%USERPROFILE%\\Contacts"],
+  ["{82A74AEB-AEB4-465C-A014-D097EE346D63}", "ControlPanelFolder", "コントロール パネル"],
+  ["{2B0F765D-C0E9-4171-908E-08A611B84FF6}", "Cookies", "Cookies", "%APPDATA%\\Microsoft\\Windows\\Cookies"],
+  ["{B4BFCC3A-DB2C-424C-B029-7FE99A87C641}", "Desktop", "デスクトップ", "%USERPROFILE%\\Desktop"],
+  ["{5CE4A5E9-E4EB-479D-B89F-130C02886155}", "Device Metadata Store", "Device Metadata Store", "%ALLUSERSPROFILE%\\Microsoft\\Windows\\DeviceMetadataStore"],
+  ["{FDD39AD0-238F-46AF-ADB4-6C85480369C7}", "Personal", "ドキュメント", "%USERPROFILE%\\Documents"],
+  ["{7B0DB17D-9CD2-4A93-9733-46CC89022E7C}", "DocumentsLibrary", "ドキュメント", "%APPDATA%\\Microsoft\\Windows\\Libraries\\Documents.library-ms"],
+  ["{374DE290-123F-4565-9164-39C4925E467B}", "Downloads", "ダウンロード", "%USERPROFILE%\\Downloads"],
+  ["{1777F761-68AD-4D8A-87BD-30B759FA33DD}", "Favorites", "お気に入り", "%USERPROFILE%\\Favorites"],
+  ["{FD228CB7-AE11-4AE3-864C-16F3910AB8FE}", "Fonts", "フォント", "%windir%\\Fonts"],
+  ["{CAC52C1A-B53D-4EDC-92D7-6B2E8AC19434}", "Games", "ゲーム"],
+  ["{054FAE61-4DD8-4787-80B6-090220C4B700}", "GameTasks", "GameExplorer", "%LOCALAPPDATA%\\Microsoft\\Windows\\GameExplorer"],
+  ["{D9DC8A3B-B784-432E-A781-5A1130A75963}", "History", "履歴", "%LOCALAPPDATA%\\Microsoft\\Windows\\History"],
+  ["{52528A6B-B9E3-4ADD-B60D-588C2DBA842D}", "HomeGroupFolder", "ホームグループ"],
+  ["{9B74B6A3-0DFD-4F11-9E78-5F7800F2E772}", "HomeGroupCurrentUserFolder", "ホームグループ（現在のユーザー）"],
+  ["{BCB5256F-79F6-4CEE-B725-DC34E402FD46}", "ImplicitAppShortcuts", "ImplicitAppShortcuts", "%APPDATA%\\Microsoft\\Internet Explorer\\Quick Launch\\User Pinned\\ImplicitAppShortcuts"],
+  ["{352481E8-33BE-4251-BA85-6007CAEDCF9D}", "Cache", "インターネット一時ファイル", "%LOCALAPPDATA%\\Microsoft\\Windows\\Temporary Internet Files"],
+  ["{4D9F7874-4E0C-4904-967B-40B0D20C3E4B}", "InternetFolder", "インターネット"],
+  ["{1B3EA5DC-B587-4786-B4EF-BD1DC332AEAE}", "Libraries", "ライブラリ", "%APPDATA%\\Microsoft\\Windows\\Libraries"],
+  ["{BFB9D5E0-C6A9-404C-B2B2-AE6DB6AF4968}", "Links", "リンク", "%USERPROFILE%\\Links"],
+  ["{F1B32785-6FBA-4FCF-9D55-7B8E7F157091}", "Local AppData", "Local", "%LOCALAPPDATA%"],
+  ["{A520A1A4-1780-4FF6-BD18-167343C5AF16}", "LocalAppDataLow", "LocalLow", "%USERPROFILE%\\AppData\\LocalLow"],
+  ["{2A00375E-224C-49DE-B8D1-440DF7EF3DDC}", "LocalizedResourcesDir", "LocalizedResourcesDir", "%windir%\\resources\\0411"],
+  ["{4BD8D571-6D19-48D3-BE97-422220080E43}", "My Music", "ミュージック", "%USERPROFILE%\\Music"],
+  ["{2112AB0A-C86A-4FFE-A368-0DE96E47012E}", "MusicLibrary", "ミュージック", "%APPDATA%\\Microsoft\\Windows\\Libraries\\Music.library-ms"],
+  ["{C5ABBF53-E17F-4121-8900-86626FC2C973}", "NetHood", "Network Shortcuts", "%APPDATA%\\Microsoft\\Windows\\Network Shortcuts"],
+  ["{D20BEEC4-5CA8-4905-AE3B-BF251EA09B53}", "NetworkPlacesFolder", "ネットワーク"],
+  ["{31C0DD25-9439-4F12-BF41-7FF4EDA38722}", "3D Objects", "3D オブジェクト", "%USERPROFILE%\\3D Objects"],
+  ["{2C36C0AA-5812-4B87-BFD0-4CD0DFB19B39}", "Original Images", "Original Images", "%LOCALAPPDATA%\\Microsoft\\Windows Photo Gallery\\Original Images"],
+  ["{69D2CF90-FC33-4FB7-9A0C-EBB0F0FCB43C}", "PhotoAlbums", "スライド ショー", "%USERPROFILE%\\Pictures\\Slide Shows"],
+  ["{A990AE9F-A03B-4E80-94BC-9912D7504104}", "PicturesLibrary", "ピクチャ", "%APPDATA%\\Microsoft\\Windows\\Libraries\\Pictures.library-ms"],
+  ["{33E28130-4E1E-4676-835A-98395C3BC3BB}", "My Pictures", "ピクチャ", "%USERPROFILE%\\Pictures"],
+  ["{DE92C1C7-837F-4F69-A3BB-86E631204A23}", "Playlists", "プレイリスト", "%USERPROFILE%\\Music\\Playlists"],
+  ["{76FC4E2D-D6AD-4519-A663-37BD56068185}", "PrintersFolder", "プリンター"],
+  ["{9274BD8D-CFD1-41C3-B35E-B13F55A758F4}", "PrintHood", "Printer Shortcuts", "%APPDATA%\\Microsoft\\Windows\\Printer Shortcuts"],
+  ["{5E6C858F-0E22-4760-9AFE-EA3317B67173}", "Profile", "ユーザープロファイル", "%USERPROFILE%"],
+  ["{62AB5D82-FDC1-4DC3-A9DD-070D1D495D97}", "Common AppData", "ProgramData", "%ALLUSERSPROFILE%"],
+  ["{905E63B6-C1BF-494E-B29C-65B732D3D21A}", "ProgramFiles", "Program Files", "%ProgramFiles%"],
+  ["{6D809377-6AF0-444B-8957-A3773F02200E}", "ProgramFilesX64", "Program Files", "%ProgramFiles%"],
+  ["{7C5A40EF-A0FB-4BFC-874A-C0F2E0B9FA8E}", "ProgramFilesX86", "Program Files (x86)", "%ProgramFiles(x86)%"],
+  ["{F7F1ED05-9F6D-47A2-AAAE-29D317C6F066}", "ProgramFilesCommon", "Common Files", "%ProgramFiles%\\Common Files"],
+  ["{6365D5A7-0F0D-45E5-87F6-0DA56B6A4F7D}", "ProgramFilesCommonX64", "Common Files", "%ProgramFiles%\\Common Files"],
+  ["{DE974D24-D9C6-4D3E-BF91-F4455120B917}", "ProgramFilesCommonX86", "Common Files", "%ProgramFiles(x86)%\\Common Files"],
+  ["{A77F5D77-2E2B-44C3-A6A2-ABA601054A51}", "Programs", "プログラム", "%APPDATA%\\Microsoft\\Windows\\Start Menu\\Programs"],
+  ["{DFDF76A2-C82A-4D63-906A-5644AC457385}", "Public", "パブリック", "%PUBLIC%"],
+  ["{C4AA340D-F20F-4863-AFEF-F87EF2E6BA25}", "Common Desktop", "パブリックのデスクトップ", "%PUBLIC%\\Desktop"],
+  ["{ED4824AF-DCE4-45A8-81E2-FC7965083634}", "Common Documents", "パブリックのドキュメント", "%PUBLIC%\\Documents"],
+  ["{3D644C9B-1FB8-4F30-9B45-F670235F79C0}", "CommonDownloads", "パブリックのダウンロード", "%PUBLIC%\\Downloads"],
+  ["{DEBF2536-E1A8-4C59-B6A2-414586476AEA}", "PublicGameTasks", "GameExplorer", "%ALLUSERSPROFILE%\\Microsoft\\Windows\\GameExplorer"],
+  ["{48DAF80B-E6CF-4F4E-B800-0E69D84EE384}", "PublicLibraries", "パブリックのライブラリ", "%ALLUSERSPROFILE%\\Microsoft\\Windows\\Libraries"],
+  ["{3214FAB5-9757-4298-BB61-92A9DEAA44FF}", "CommonMusic", "パブリックのミュージック", "%PUBLIC%\\Music"],
+  ["{B6EBFB86-6907-413C-9AF7-4FC2ABF07CC5}", "CommonPictures", "パブリックのピクチャ", "%PUBLIC%\\Pictures"],
+  ["{E555AB60-153B-4D17-9F04-A5FE99FC15EC}", "CommonRingtones", "着信音", "%ALLUSERSPROFILE%\\Microsoft\\Windows\\Ringtones"],
+  ["{0482AF6C-08F1-4C34-8C90-E17EC98B1E17}", "Public Account Pictures", "パブリックのアカウントの画像", "%PUBLIC%\\AccountPictures"],
+  ["{2400183A-6185-49FB-A2D8-4A392A602BA3}", "CommonVideo", "パブリックのビデオ", "%PUBLIC%\\Videos"],
+  ["{52A4F021-7B75-48A9-9F6B-4B87A210BC8F}", "Quick Launch", "クイック起動", "%APPDATA%\\Microsoft\\Internet Explorer\\Quick Launch"],
+  ["{AE50C081-EBD2-438A-8655-8A092E34987A}", "Recent", "最近使った項目", "%APPDATA%\\Microsoft\\Windows\\Recent"],
+  ["{1A6FDBA2-F42D-4358-A798-B74D745926C5}", "RecordedTVLibrary", "録画したテレビ", "%PUBLIC%\\Libraries\\RecordedTV.library-ms"],
+  ["{B7534046-3ECB-4C18-BE4E-64CD4CB7D6AC}", "RecycleBinFolder", "ごみ箱"],
+  ["{8AD10C31-2ADB-4296-A8F7-E4701232C972}", "ResourceDir", "Resources", "%windir%\\Resources"],
+  ["{C870044B-F49E-4126-A9C3-B52A1FF411E8}", "Ringtones", "着信音", "%LOCALAPPDATA%\\Microsoft\\Windows\\Ringtones"],
+  ["{3EB685DB-65F9-4CF6-A03A-E3EF65729F3D}", "AppData", "Roaming", "%APPDATA%"],
+  ["{AAA8D5A5-F1D6-4259-BAA8-78E7EF60835E}", "RoamedTileImages", "RoamedTileImages", "%LOCALAPPDATA%\\Microsoft\\Windows\\RoamedTileImages"],
+  ["{00BCFC5A-ED94-4E48-96A1-3F6217F21990}", "RoamingTiles", "RoamingTiles", "%LOCALAPPDATA%\\Microsoft\\Windows\\RoamingTiles"],
+  ["{B250C668-F57D-4EE1-A63C-290EE7D1AA1F}", "SampleMusic", "サンプル ミュージック", "%PUBLIC%\\Music\\Sample Music"],
+  ["{C4900540-2379-4C75-844B-64E6FAF8716B}", "SamplePictures", "サンプル ピクチャ", "%PUBLIC%\\Pictures\\Sample Pictures"],
+  ["{15CA69B3-30EE-49C1-ACE1-6B5EC372AFB5}", "SamplePlaylists", "サンプル プレイリスト", "%PUBLIC%\\Music\\Sample Playlists"],
+  ["{859EAD94-2E85-48AD-A71A-0969CB56A6CD}", "SampleVideos", "サンプル ビデオ", "%PUBLIC%\\Videos\\Sample Videos"],
+  ["{4C5C32FF-BB9D-43B0-B5B4-2D72E54EAAA4}", "SavedGames", "保存したゲーム", "%USERPROFILE%\\Saved Games"],
+  ["{3B193882-D3AD-4EAB-965A-69829D1FB59F}", "SavedPictures", "保存済みの写真", "%USERPROFILE%\\Pictures\\Saved Pictures"],
+  ["{7D1D3A04-DEBB-4115-95CF-2F29DA2920DA}", "Searches", "検索", "%USERPROFILE%\\Searches"],
+  ["{B7BEDE81-DF94-4682-A7D8-57A52620B86F}", "Screenshots", "スクリーンショット", "%USERPROFILE%\\Pictures\\Screenshots"],
+  ["{EE32E446-31CA-4ABA-814F-A5EBD2FD6D5E}", "CSCFolder", "オフライン ファイル"],
+  ["{0D4C3DB6-03A3-462F-A0E6-08924C41B5D4}", "SearchHistoryFolder", "検索履歴", "%LOCALAPPDATA%\\Microsoft\\Windows\\ConnectedSearch\\History"],
+  ["{190337D1-B8CA-4121-A639-6D472D16972A}", "SearchHomeFolder", "検索結果"],
+  ["{98EC0E18-2098-4D44-8644-66979315A281}", "MAPIFolder", "Microsoft Office Outlook"],
+  ["{7E636BFE-DFA9-4D5E-B456-D7B39851D8A9}", "SearchTemplatesFolder", "検索テンプレート", "%LOCALAPPDATA%\\Microsoft\\Windows\\ConnectedSearch\\Templates"],
+  ["{8983036C-27C0-404B-8F08-102D10DCFD74}", "SendTo", "送る", "%APPDATA%\\Microsoft\\Windows\\SendTo"],
+  ["{7B396E54-9EC5-4300-BE0A-2482EBAE1A26}", "Default Gadgets", "ガジェット", "%ProgramFiles%\\Windows Sidebar\\Gadgets"],
+  ["{A75D362E-50FC-4FB7-AC2C-A8BEAA314493}", "Gadgets", "ガジェット", "%LOCALAPPDATA%\\Microsoft\\Windows Sidebar\\Gadgets"],
+  ["{A52BBA46-E9E1-435F-B3D9-28DAA648C0F6}", "OneDrive", "OneDrive", "%USERPROFILE%\\OneDrive"],
+  ["{767E6811-49CB-4273-87C2-20F355E1085B}", "OneDriveCameraRoll", "カメラ ロール", "%USERPROFILE%\\OneDrive\\Pictures\\Camera Roll"],
+  ["{24D89E24-2F19-4534-9DDE-6A6671FBB8FE}", "OneDriveDocuments", "ドキュメント", "%USERPROFILE%\\OneDrive\\Documents"],
+  ["{339719B5-8C47-4894-94C2-D8F77ADD44A6}", "OneDrivePictures", "画像", "%USERPROFILE%\\OneDrive\\Pictures"],
+  ["{625B53C3-AB48-4EC1-BA1F-A1EF4146FC19}", "Start Menu", "スタート メニュー", "%APPDATA%\\Microsoft\\Windows\\Start Menu"],
+  ["{B97D20BB-F46A-4C97-BA10-5E3608430854}", "Startup", "スタートアップ", "%APPDATA%\\Microsoft\\Windows\\Start Menu\\Programs\\StartUp"],
+  ["{43668BF8-C14E-49B2-97C9-747784D784B7}", "SyncCenterFolder", "同期センター"],
+  ["{289A9A43-BE44-4057-A41B-587A76D7E7F9}", "SyncResultsFolder", "同期の結果"],
+  ["{0F214138-B1D3-4A90-BBA9-27CBC0C5389A}", "SyncSetupFolder", "同期のセットアップ"],
+  ["{1AC14E77-02E7-4E5D-B744-2EB1AE5198B7}", "System", "System32", "%windir%\\system32"],
+  ["{D65231B0-B2F1-4857-A4CE-A8E7C6EA7D27}", "SystemX86", "SysWOW64", "%windir%\\SysWOW64"],
+  ["{A63293E8-664E-48DB-A079-DF759E0509F7}", "Templates", "テンプレート", "%APPDATA%\\Microsoft\\Windows\\Templates"],
+  ["{9E3995AB-1F9C-4F13-B827-48B24B6C7174}", "User Pinned", "User Pinned", "%APPDATA%\\Microsoft\\Internet Explorer\\Quick Launch\\User Pinned"],
+  ["{0762D272-C50A-4BB0-A382-697DCD729B80}", "UserProfiles", "ユーザー", "%SystemDrive%\\Users"],
+  ["{5CD7AEE2-2219-4A67-B85D-6C9CE15660CB}", "UserProgramFiles", "Programs", "%LOCALAPPDATA%\\Programs"],
+  ["{BCBD3057-CA5C-4622-B42D-BC56DB0AE516}", "UserProgramFilesCommon", "Common", "%LOCALAPPDATA%\\Programs\\Common"],
+  ["{F3CE0F7C-4901-4ACC-8648-D5D44B04EF8F}", "UsersFilesFolder", "ユーザーのファイル"],
+  ["{A302545D-DEFF-464B-ABE8-61C8648D939B}", "UsersLibrariesFolder", "ライブラリ"],
+  ["{18989B1D-99B5-455B-841C-AB7C74E4DDFC}", "My Video", "ビデオ", "%USERPROFILE%\\Videos"],
+  ["{491E922F-5643-4AF4-A7EB-4E7A138D8174}", "VideosLibrary", "ビデオ", "%APPDATA%\\Microsoft\\Windows\\Libraries\\Videos.library-ms"],
+  ["{F38BF404-1D43-42F2-9305-67DE0B28FC23}", "Windows", "Windows", "%windir%"],
+]);
+
+// コントロールパネルの項目
+const CONTROL_PANEL_ITEMS = entries([
+  ["{D20EA4E1-3957-11D2-A40B-0C5020524153}", "Microsoft.AdministrativeTools", "管理ツール"],
+  ["{9C60DE1E-E5FC-40F4-A487-460851A8D915}", "Microsoft.AutoPlay", "自動再生"],
+  ["{B98A2BEA-7D42-4558-8BD1-832F41BAC6FD}", "Microsoft.BackupAndRestore", "バックアップと復元"],
+  ["{0142E4D0-FB7A-11DC-BA4A-000FFE7AB428}", "Microsoft.BiometricDevices", "生体認証デバイス"],
+  ["{D9EF8727-CAC2-4E60-809E-86F80A666C91}", "Microsoft.BitLockerDriveEncryption", "BitLocker ドライブ暗号化"],
+  ["{B2C761C6-29BC-4F19-9251-E6195265BAF1}", "Microsoft.ColorManagement", "色の管理"],
+  ["{1206F5F1-0569-412C-8FEC-3204630DFB70}", "Microsoft.CredentialManager", "資格情報マネージャー"],
+  ["{E2E7934B-DCE5-43C4-9576-7FE4F75E7480}", "Microsoft.DateAndTime", "日付と時刻"],
+  ["{17CD9488-1228-4B2F-88CE-4298E93E0966}", "Microsoft.DefaultPrograms", "既定のプログラム"],
+  ["{74246BFC-4C96-11D0-ABEF-0020AF6B0B7A}", "Microsoft.DeviceManager", "デバイス マネージャー"],
+  ["{A8A91A66-3A7D-4424-8D24-04E180695C7A}", "Microsoft.DevicesAndPrinters", "デバイスとプリンター"],
+  ["{D555645E-D4F8-4C29-A827-D93C859C4F2A}", "Microsoft.EaseOfAccessCenter", "コンピューターの簡単操作センター"],
+  ["{6DFD7C5C-2451-11D3-A299-00C04F8EF6AF}", "Microsoft.FolderOptions", "エクスプローラーのオプション"],
+  ["{93412589-74D4-4E4E-AD0E-E0CB621440FD}", "Microsoft.Fonts", "フォント"],
+  ["{259EF4B1-E6C9-4176-B574-481532C9BCE8}", "Microsoft.GameControllers", "ゲーム コントローラー"],
+  ["{15EAE92E-F17A-4431-9F28-805E482DAFD4}", "Microsoft.GetPrograms", "プログラムの取得"],
+  ["{87D66A43-7B11-4A28-9811-C86EE395ACF7}", "Microsoft.IndexingOptions", "インデックスのオプション"],
+  ["{A3DD4F92-658A-410F-84FD-6FBBBEF2FFFE}", "Microsoft.InternetOptions", "インターネット オプション"],
+  ["{725BE8F7-668E-4C7B-8F90-46BDB0936430}", "Microsoft.Keyboard", "キーボード"],
+  ["{6C8EEC18-8D75-41B2-A177-8831D59D2D50}", "Microsoft.Mouse", "マウス"],
+  ["{8E908FC9-BECC-40F6-915B-F4CA0E70D03D}", "Microsoft.NetworkAndSharingCenter", "ネットワークと共有センター"],
+  ["{7007ACC7-3202-11D1-AAD2-00805FC1270E}", "Microsoft.NetworkConnections", "ネットワーク接続"],
+  ["{40419485-C444-4567-851A-2DD7BFA1684D}", "Microsoft.PhoneAndModem", "電話とモデム"],
+  ["{025A5937-A6BE-4686-A844-36FE4BEC8B6D}", "Microsoft.PowerOptions", "電源オプション"],
+  ["{7B81BE6A-CE2B-4676-A29E-EB907A5126C5}", "Microsoft.ProgramsAndFeatures", "プログラムと機能"],
+  ["{9FE63AFD-59CF-4419-9775-ABCC3849F861}", "Microsoft.Recovery", "回復"],
+  ["{62D8ED13-C9D0-4CE8-A914-47DD628FB1B0}", "Microsoft.RegionAndLanguage", "地域"],
+  ["{241D7C96-F8BF-4F85-B01F-E2B043341A4B}", "Microsoft.RemoteAppAndDesktopConnections", "RemoteApp とデスクトップ接続"],
+  ["{BB64F8A7-BEE7-4E1A-AB8D-7D8273F7FDB6}", "Microsoft.ActionCenter", "セキュリティとメンテナンス"],
+  ["{F2DDFC82-8F12-4CDD-B7DC-D4FE1425AA4D}", "Microsoft.Sound", "サウンド"],
+  ["{F942C606-0914-47AB-BE56-1321B8035096}", "Microsoft.StorageSpaces", "記憶域"],
+  ["{9C73F5E5-7AE7-4E32-A8E8-8D23B85255BF}", "Microsoft.SyncCenter", "同期センター"],
+  ["{BB06C0E4-D293-4F75-8A90-CB05B6477EEE}", "Microsoft.System", "システム"],
+  ["{0DF44EAA-FF21-4412-828E-260A8728E7F1}", "Microsoft.Taskbar", "タスク バーとナビゲーション"],
+  ["{D17D1D6D-CC3F-4815-8FE3-607E7D5D10B3}", "Microsoft.TextToSpeech", "音声認識"],
+  ["{60632754-C523-4B62-B45C-4172DA012619}", "Microsoft.UserAccounts", "ユーザー アカウント"],
+  ["{4026492F-2F69-46B8-B9BF-5654FC07E423}", "Microsoft.WindowsFirewall", "Windows Defender ファイアウォール"],
+  ["{E95A4861-D57A-4BE1-AD0F-35267E261739}", "Microsoft.MobilityCenter", "Windows モビリティ センター"],
+  ["{36EEF7DB-88AD-4E81-AD49-0E313F0C35F8}", "Microsoft.WindowsUpdate", "Windows Update"],
+  ["{ECDB0924-4208-451E-8EE0-373C0956DE16}", "Microsoft.WorkFolders", "ワーク フォルダー"],
+]);
+
+const BUILTIN: KnownFolder[] = [...SHELL_FOLDERS, ...KNOWN_FOLDERS, ...CONTROL_PANEL_ITEMS];
+
+// ユーザーが読み込んだ対応表（組み込みのものより優先される）
+let userFolders: KnownFolder[] = [];
+let revision = 0;
+
+// 対応表が変更されるたびに増える値；名前をキャッシュする側が古くなったか判断するのに使う
+export function getRevision(): number {
+  return revision;
+}
+
+export function getKnownFolder(clsid: CLSID): KnownFolder | undefined {
+  return userFolders.find((f) => f.clsid.equals(clsid)) ?? BUILTIN.find((f) => f.clsid.equals(clsid));
+}
+
+export function findKnownFolderByName(name: string): KnownFolder | undefined {
+  const match = (f: KnownFolder) => f.displayName === name;
+  return userFolders.find(match) ?? BUILTIN.find(match);
+}
+
+function optionalString(value: unknown, key: string): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    throw new KnownFolderError(`${key}の値が文字列ではありません`);
+  }
+  return value;
+}
+
+// 以下の形式のJSONを読み込み、組み込みの対応表を上書きする
+// {
+//   "{CLSID}": "表示名",
+//   "{CLSID}": { "displayName": "表示名", "canonicalName": "正式名", "path": "既定のパス" }
+// }
+export function parseKnownFolders(json: unknown): KnownFolder[] {
+  if (typeof json !== "object" || json === null || Array.isArray(json)) {
+    throw new KnownFolderError("対応表はオブジェクトである必要があります");
+  }
+
+  const folders: KnownFolder[] = [];
+  for (const [key, value] of Object.entries(json)) {
+    const clsid = CLSID.fromString(key);
+    if (clsid === undefined) {
+      throw new KnownFolderError(`${key}はCLSIDではありません`);
+    }
+
+    if (typeof value === "string") {
+      folders.push({ clsid, displayName: value });
+      continue;
+    }
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new KnownFolderError(`${key}の値が不正です`);
+    }
+
+    const entry = value as Record<string, unknown>;
+    const displayName = optionalString(entry.displayName, `${key}.displayName`);
+    if (displayName === undefined) {
+      throw new KnownFolderError(`${key}にdisplayNameがありません`);
+    }
+    folders.push({
+      clsid,
+      canonicalName: optionalString(entry.canonicalName, `${key}.canonicalName`),
+      displayName,
+      path: optionalString(entry.path, `${key}.path`),
+    });
+  }
+
+  return folders;
+}
+
+export function setUserKnownFolders(folders: KnownFolder[]): void {
+  userFolders = folders;
+  revision++;
+}
@@ -0,0 +1,348 @@
+// Windowsのショートカット（MS-SHLLINKの.lnkと、インターネットショートカットの.url）の読み書き
+
+import { ByteWriter } from "./bytes.js";
+import { decodeText } from "./encoding.js";
+import * as idl from "./idl.js";
+import { Ocs, OcsItem, OcsItemFolder, OcsItemLaunch, OcsItemSubmenu } from "./orchis.js";
+import { createZip, ZipEntry } from "./zip.js";
+
+// {00021401-0000-0000-C000-000000000046}
+const LINK_CLSID = [0x01, 0x14, 0x02, 0x00, 0x00, 0x00, 0x00, 0x00, 0xC0, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x46];
+const HEADER_SIZE = 0x4C;
+
+const HAS_LINK_TARGET_ID_LIST = 0x00000001;
+const HAS_LINK_INFO = 0x00000002;
+const HAS_NAME = 0x00000004;
+const HAS_RELATIVE_PATH = 0x00000008;
+const HAS_WORKING_DIR = 0x00000010;
+const HAS_ARGUMENTS = 0x00000020;
+const HAS_ICON_LOCATION = 0x00000040;
+const IS_UNICODE = 0x00000080;
+const RUN_AS_USER = 0x00002000;
+
+const VOLUME_ID_AND_LOCAL_BASE_PATH = 0x00000001;
+const COMMON_NETWORK_RELATIVE_LINK_AND_PATH_SUFFIX = 0x00000002;
+
+const SW_SHOWNORMAL = 1;
+const SW_SHOWMINIMIZED = 2;
+const SW_SHOWMAXIMIZED = 3;
+const SW_SHOWMINNOACTIVE = 7;
+
+// OrchisのShowCmd（1：通常、2：最小化、3：最大化）とショートカットのShowCommandの対応
+const SHOW_COMMANDS: Array<[showCmd: number, showCommand: number]> = [
+  [1, SW_SHOWNORMAL],
+  [2, SW_SHOWMINNOACTIVE],
+  [3, SW_SHOWMAXIMIZED],
+  [2, SW_SHOWMINIMIZED],
+];
+
+export class LnkError extends Error {}
+
+class ByteReader {
+  constructor(public data: Uint8Array) {}
+
+  #check(offset: number, size: number): void {
+    if (offset < 0 || offset + size > this.data.length) {
+      throw new LnkError("ショートカットのデータが途中で終わっています");
+    }
+  }
+
+  uint16(offset: number): number {
+    this.#check(offset, 2);
+    return this.data[offset] | (this.data[offset + 1] << 8);
+  }
+
+  uint32(offset: number): number {
+    this.#check(offset, 4);
+    return (this.uint16(offset) | (this.uint16(offset + 2) << 16)) >>> 0;
+  }
+
+  bytes(offset: number, size: number): Uint8Array {
+    this.#check(offset, size);
+    return this.data.subarray(offset, offset + size);
+  }
+
+  // NULで終わる文字列。ANSIの文字列はShift_JISとみなす
+  string(offset: number, unicode: boolean): string {
+    const unit = unicode ? 2 : 1;
+    let end = offset;
+    while (unicode ? this.uint16(end) !== 0 : this.bytes(end, 1)[0] !== 0) {
+      end += unit;
+    }
+    return decodeText(this.data.subarray(offset, end), unicode ? "utf-16le" : "shift_jis").text;
+  }
+}
+
+function tryFileMetadata(itemID: Uint8Array): idl.FileMetadata | undefined {
+  try {
+    return idl.getFileMetadataFromItemID(itemID);
+  } catch (e) {
+    if (!(e instanceof idl.IdlError)) {
+      throw e;
+    }
+    return undefined;
+  }
+}
+
+// ItemIDListを終端の0x0000までとし、終端がなければ付け足す
+function withTerminator(itemID: Uint8Array): Uint8Array {
+  let offset = 0;
+  while (offset + 2 <= itemID.length) {
+    const cb = itemID[offset] | (itemID[offset + 1] << 8);
+    if (cb === 0) {
+      return itemID.subarray(0, offset + 2);
+    }
+    offset += cb;
+  }
+  return Uint8Array.from([...itemID.subarray(0, Math.min(offset, itemID.length)), 0, 0]);
+}
+
+// StringDataは文字数を先頭に付け、終端のNULは付けない
+function writeCountedString(out: ByteWriter, text: string): void {
+  out.uint16(text.length);
+  out.utf16(text);
+}
+
+// 項目を参照先とするショートカットを作る
+export function createShellLink(item: OcsItemLaunch | OcsItemFolder): Uint8Array {
+  const launch = item instanceof OcsItemLaunch ? item : undefined;
+  const args = launch?.parameter ?? "";
+
+  let flags = HAS_LINK_TARGET_ID_LIST | HAS_NAME | IS_UNICODE;
+  if (args !== "") {
+    flags |= HAS_ARGUMENTS;
+  }
+  if (launch?.verb === "runas") {
+    flags |= RUN_AS_USER;
+  }
+
+  // 参照先に記録された属性や日時があればそのまま使う
+  const metadata = tryFileMetadata(item.itemID);
+  const attributes = metadata?.attributes ?? (item instanceof OcsItemFolder ? idl.FILE_ATTRIBUTE_DIRECTORY : 0);
+  const showCommand = SHOW_COMMANDS.find(([showCmd]) => showCmd === launch?.showCmd)?.[1] ?? SW_SHOWNORMAL;
+
+  const out = new ByteWriter();
+  out.uint32(HEADER_SIZE);
+  out.bytes(LINK_CLSID);
+  out.uint32(flags);
+  out.uint32(attributes);
+  out.fileTime(metadata?.created);
+  out.fileTime(metadata?.accessed);
+  out.fileTime(metadata?.modified);
+  out.uint32(metadata?.size ?? 0);
+  // IconIndex、ShowCommand、HotKey、予約領域
+  out.uint32(0);
+  out.uint32(showCommand);
+  out.uint16(0);
+  out.uint16(0);
+  out.uint32(0);
+  out.uint32(0);
+
+  const itemID = withTerminator(item.itemID);
+  out.uint16(itemID.length);
+  out.bytes(itemID);
+
+  writeCountedString(out, item.caption);
+  if (args !== "") {
+    writeCountedString(out, args);
+  }
+
+  // TerminalBlock
+  out.uint32(0);
+  return out.build();
+}
+
+// LinkInfoに記録された参照先のパス
+function readLinkInfoPath(reader: ByteReader, offset: number): string | undefined {
+  const headerSize = reader.uint32(offset + 4);
+  const flags = reader.uint32(offset + 8);
+  // ヘッダーが0x24バイト以上ならUnicodeのパスも持つ
+  const unicode = headerSize >= 0x24;
+
+  const suffixOffset = unicode ? reader.uint32(offset + 0x20) : reader.uint32(offset + 0x18);
+  const suffix = suffixOffset !== 0 ? reader.string(offset + suffixOffset, unicode) : "";
+
+  if (flags & VOLUME_ID_AND_LOCAL_BASE_PATH) {
+    const baseOffset = unicode ? reader.uint32(offset + 0x1C) : reader.uint32(offset + 0x10);
+    return reader.string(offset + baseOffset, unicode) + suffix;
+  }
+
+  if (flags & COMMON_NETWORK_RELATIVE_LINK_AND_PATH_SUFFIX) {
+    const link = offset + reader.uint32(offset + 0x14);
+    const netNameOffset = reader.uint32(link + 8);
+    const netNameUnicode = netNameOffset > 0x14;
+    const netName = netNameUnicode
+      ? reader.string(link + reader.uint32(link + 0x14), true)
+      : reader.string(link + netNameOffset, false);
+    return suffix !== "" ? `${netName}\\${suffix}` : netName;
+  }
+
+  return undefined;
+}
+
+// 拡張子を除いたファイル名を項目名とする
+function captionFromFileName(fileName: string): string {
+  return fileName.replace(/^.*[\\/]/, "").replace(/\.[^.]*$/, "");
+}
+
+// ショートカットを起動項目かフォルダ項目にする
+export function parseShellLink(data: Uint8Array, fileName: string): OcsItemLaunch | OcsItemFolder {
+  const reader = new ByteReader(data);
+  if (
+    data.length < HEADER_SIZE ||
+    reader.uint32(0) !== HEADER_SIZE ||
+    !LINK_CLSID.every((b, i) => data[4 + i] === b)
+  ) {
+    throw new LnkError("ショートカットではありません");
+  }
+
+  const flags = reader.uint32(0x14);
+  const attributes = reader.uint32(0x18);
+  const showCommand = reader.uint32(0x3C);
+
+  let offset = HEADER_SIZE;
+  let itemID: Uint8Array | undefined;
+  if (flags & HAS_LINK_TARGET_ID_LIST) {
+    const size = reader.uint16(offset);
+    itemID = reader.bytes(offset + 2, size).slice();
+    offset += 2 + size;
+  }
+
+  let linkInfoPath: string | undefined;
+  if (flags & HAS_LINK_INFO) {
+    linkInfoPath = readLinkInfoPath(reader, offset);
+    offset += reader.uint32(offset);
+  }
+
+  // StringDataは決まった順に並ぶ
+  const unicode = (flags & IS_UNICODE) !== 0;
+  const strings = new Map<number, string>();
+  for (const flag of [HAS_NAME, HAS_RELATIVE_PATH, HAS_WORKING_DIR, HAS_ARGUMENTS, HAS_ICON_LOCATION]) {
+    if (flags & flag) {
+      const count = reader.uint16(offset);
+      const bytes = reader.bytes(offset + 2, unicode ? count * 2 : count);
+      strings.set(flag, decodeText(bytes, unicode ? "utf-16le" : "shift_jis").text);
+      offset += 2 + bytes.length;
+    }
+  }
+
+  if (itemID === undefined) {
+    // ItemIDListのないショートカットはLinkInfoのパスから作る
+    if (linkInfoPath === undefined) {
+      throw new LnkError("ショートカットに参照先がありません");
+    }
+    try {
+      itemID = idl.getItemIDFromPath(linkInfoPath, { directory: (attributes & idl.FILE_ATTRIBUTE_DIRECTORY) !== 0 });
+    } catch (e) {
+      if (!(e instanceof idl.IdlError)) {
+        throw e;
+      }
+      throw new LnkError(e.message);
+    }
+  }
+
+  const caption = captionFromFileName(fileName);
+  if (attributes & idl.FILE_ATTRIBUTE_DIRECTORY) {
+    return new OcsItemFolder(itemID, caption);
+  }
+
+  const showCmd = SHOW_COMMANDS.find(([, command]) => command === showCommand)?.[0] ?? 1;
+  const verb = flags & RUN_AS_USER ? "runas" : undefined;
+  return new OcsItemLaunch(itemID, caption, strings.get(HAS_ARGUMENTS), verb, showCmd);
+}
+
+// インターネットショートカットの[InternetShortcut]にあるURLを参照先とする
+// file:///C:/dir/file はC:\dir\file、file://server/share/file は\\server\share\file とする
+function fileUrlToPath(url: string): string {
+  let path;
+  let host;
+  try {
+    const parsed = new URL(url);
+    path = decodeURIComponent(parsed.pathname).replaceAll("/", "\\");
+    host = parsed.host;
+  } catch (e) {
+    if (!(e instanceof TypeError || e instanceof URIError)) {
+      throw e;
+    }
+    throw new LnkError(`URLの形式が不正です：${url}`);
+  }
+  return host !== "" ? `\\\\${host}${path}` : path.replace(/^\\(?=[A-Za-z]:)/, "");
+}
+
+export function parseInternetShortcut(data: Uint8Array, fileName: string): OcsItemLaunch {
+  const { text } = decodeText(data);
+  let inSection = false;
+  let url: string | undefined;
+  for (const line of text.split(/\r?\n/)) {
+    const m = line.match(/^\s*\[(.*)\]\s*$/);
+    if (m) {
+      inSection = m[1].toLowerCase() === "internetshortcut";
+    } else if (inSection && /^\s*URL\s*=/i.test(line)) {
+      url = line.slice(line.indexOf("=") + 1).trim();
+    }
+  }
+  if (!url) {
+    throw new LnkError("インターネットショートカットにURLがありません");
+  }
+
+  let itemID;
+  try {
+    itemID = idl.getItemIDFromPath(/^file:/i.test(url) ? fileUrlToPath(url) : url);
+  } catch (e) {
+    if (!(e instanceof idl.IdlError)) {
+      throw e;
+    }
+    throw new LnkError(e.message);
+  }
+  return new OcsItemLaunch(itemID, captionFromFileName(fileName), undefined, undefined, 1);
+}
+
+// ファイル名に使えない文字を置き換える
+export function toFileName(name: string): string {
+  const fileName = name
+    .replace(/[\x00-\x1F<>:"/\\|?*]/g, "_")
+    .replace(/[. ]+$/, "")
+    .trim();
+  if (fileName === "") {
+    return "_";
+  }
+  // CONやNULなどの予約名には_を付ける
+  return /^(?:CON|PRN|AUX|NUL|COM\d|LPT\d)(?:\.|$)/i.test(fileName) ? `_${fileName}` : fileName;
+}
+
+// 同じフォルダー内で名前が重なる場合は番号を付ける
+export function uniqueName(used: Set<string>, name: string, extension: string): string {
+  let candidate = `${name}${extension}`;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    candidate = `${name} (${n})${extension}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+function appendShortcuts(entries: ZipEntry[], items: OcsItem[], folder: string): void {
+  const used = new Set<string>();
+  for (const item of items) {
+    if (item instanceof OcsItemLaunch || item instanceof OcsItemFolder) {
+      const name = uniqueName(used, toFileName(item.caption), ".lnk");
+      entries.push({ name: `${folder}${name}`, data: createShellLink(item) });
+    } else if (item instanceof OcsItemSubmenu) {
+      const name = uniqueName(used, toFileName(item.caption), "");
+      entries.push({ name: `${folder}${name}/`, data: new Uint8Array() });
+      appendShortcuts(entries, item.items, `${folder}${name}/`);
+    }
+  }
+}
+
+// ランチャーごとのフォルダーに起動項目とフォルダ項目のショートカットを収めたZIPを作る。
+// 区切り線や特殊項目などショートカットにできない項目は含めない
+export function exportShortcuts(ocs: Ocs): Uint8Array {
+  const entries: ZipEntry[] = [];
+  const used = new Set<string>();
+  for (const launcher of ocs.launchers) {
+    const folder = `${uniqueName(used, toFileName(launcher.title), "")}/`;
+    entries.push({ name: folder, data: new Uint8Array() });
+    appendShortcuts(entries, launcher.items, folder);
+  }
+  return createZip(entries);
+}
@@ -1,21 +1,85 @@
 import * as idl from "./idl.js";
+import { getRevision } from "./knownfolder.js";
 
 function parseInt10(n: string): number {
   return Number.parseInt(n, 10);
 }
 
-type OcsValue = string | number | Uint8Array | OcsSection;
-type OcsSection = { [K in string]?: OcsValue };
+function parseList(value: string): number[] {
+  return value === "" ? [] : value.split(",").map(parseInt10);
+}
+
+export type OcsValue = string | number | Uint8Array | OcsSection;
+export type OcsSection = { [K in string]?: OcsValue };
+
+export type OcsSeverity = "error" | "warning";
+
+export type OcsDiagnostic = {
+  severity: OcsSeverity;
+  // 1始まりの行番号。該当する行がファイルに存在しない場合はundefined
+  line: number | undefined;
+  sectionPath: string;
+  key: string | undefined;
+  message: string;
+};
 
-function ocsIsSection(value: OcsValue): value is OcsSection {
+type OcsSectionInfo = {
+  path: string[];
+  line: number | undefined;
+  keys: Map<string, number>;
+};
+
+// parseOcsが読み込んだセクションの位置情報
+const sectionInfos = new WeakMap<OcsSection, OcsSectionInfo>();
+
+export function ocsIsSection(value: OcsValue): value is OcsSection {
   return typeof value === "object" && !(value instanceof Uint8Array);
 }
 
-function parseOcs(text: string): OcsSection {
+function ocsDiagnostic(
+  severity: OcsSeverity,
+  section: OcsSection,
+  key: string | undefined,
+  message: string,
+): OcsDiagnostic {
+  const info = sectionInfos.get(section);
+  return {
+    severity,
+    line: (key !== undefined ? info?.keys.get(key) : undefined) ?? info?.line,
+    sectionPath: (info?.path ?? []).join("\\"),
+    key,
+    message,
+  };
+}
+
+// 子セクションについての診断は子セクションの位置とする
+function ocsChildDiagnostic(severity: OcsSeverity, parent: OcsSection, key: string, message: string): OcsDiagnostic {
+  const parentInfo = sectionInfos.get(parent);
+  const child = parent[key];
+  const childInfo = child !== undefined && ocsIsSection(child) ? sectionInfos.get(child) : undefined;
+  return {
+    severity,
+    line: childInfo?.line ?? parentInfo?.keys.get(key) ?? parentInfo?.line,
+    sectionPath: [...(parentInfo?.path ?? []), key].join("\\"),
+    key: undefined,
+    message,
+  };
+}
+
+export function parseOcs(text: string, diagnostics: OcsDiagnostic[] = []): OcsSection {
   const data: OcsSection = {};
+  sectionInfos.set(data, { path: [], line: undefined, keys: new Map() });
+
+  function lineDiagnostic(line: number, sectionPath: string, message: string): void {
+    diagnostics.push({ severity: "warning", line, sectionPath, key: undefined, message });
+  }
 
   let section: OcsSection | undefined;
-  for (const line of text.split(/\r?\n/)) {
+  let info: OcsSectionInfo | undefined;
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const lineNumber = i + 1;
     if (line === "" || line.startsWith("#")) {
       continue;
     }
@@ -24,24 +88,30 @@ function parseOcs(text: string): OcsSection {
     if ((m = line.match(/^\[([^\]]+)\]$/))) {
       // [Section]
       const keys = m[1].split("\\");
-      const last = keys.pop()!;
 
       let parent = data;
-      for (const key of keys) {
-        const next = parent[key];
-        if (next && ocsIsSection(next)) {
-          parent = next;
-        } else {
-          parent = parent[key] = {};
+      for (let j = 0; j < keys.length; j++) {
+        const key = keys[j];
+        let next = parent[key];
+        if (!(next && ocsIsSection(next))) {
+          next = parent[key] = {};
+          sectionInfos.set(next, { path: keys.slice(0, j + 1), line: undefined, keys: new Map() });
         }
+        parent = next;
       }
 
-      parent[last] = section = {};
+      section = parent;
+      info = sectionInfos.get(section)!;
+      if (info.line !== undefined) {
+        lineDiagnostic(lineNumber, m[1], `セクションが重複しています（${info.line}行目）`);
+      } else {
+        info.line = lineNumber;
+      }
     } else if ((m = line.match(/^([^=]+)=([a-z]{2}):(.*)$/))) {
       // Key=Type:Value
       const [, key, type, value] = m;
-      if (section === undefined) {
-        console.log("セクション前に値がある");
+      if (section === undefined || info === undefined) {
+        lineDiagnostic(lineNumber, "", "セクションより前に値があります");
         continue;
       }
 
@@ -51,33 +121,160 @@ function parseOcs(text: string): OcsSection {
           parsed = parseInt10(value);
           break;
         case "ws":
-          parsed = String.fromCharCode(...value.split(",").map(parseInt10));
+          parsed = String.fromCharCode(...parseList(value));
           break;
         case "bn":
-          parsed = Uint8Array.from(value.split(",").map(parseInt10));
+          parsed = Uint8Array.from(parseList(value));
           break;
         default:
-          console.log(`不明な型：${type}`);
+          lineDiagnostic(lineNumber, info.path.join("\\"), `不明な型です：${type}`);
           continue;
       }
 
       section[key] = parsed;
+      info.keys.set(key, lineNumber);
     } else {
-      console.log(`不正な行：${line}`);
+      lineDiagnostic(lineNumber, info?.path.join("\\") ?? "", `不正な行です：${line}`);
     }
   }
 
   return data;
 }
 
+export function serializeOcs(data: OcsSection): string {
+  const lines: string[] = [];
+
+  function serializeValue(value: string | number | Uint8Array): string {
+    if (typeof value === "number") {
+      return `dw:${value}`;
+    }
+    if (typeof value === "string") {
+      return `ws:${Array.from({ length: value.length }, (_, i) => value.charCodeAt(i)).join(",")}`;
+    }
+    return `bn:${value.join(",")}`;
+  }
+
+  function serializeSection(path: string[], section: OcsSection): void {
+    if (path.length > 0) {
+      lines.push(`[${path.join("\\")}]`);
+    }
+
+    // 子セクションより先に値を書き出す
+    const children: Array<[string, OcsSection]> = [];
+    for (const [key, value] of Object.entries(section)) {
+      if (value === undefined) {
+        continue;
+      }
+
+      if (ocsIsSection(value)) {
+        children.push([key, value]);
+      } else {
+        lines.push(`${key}=${serializeValue(value)}`);
+      }
+    }
+
+    for (const [key, child] of children) {
+      serializeSection([...path, key], child);
+    }
+  }
+
+  serializeSection([], data);
+  return lines.map((line) => `${line}\r\n`).join("");
+}
+
+function ocsIsIndex(key: string): boolean {
+  return /^(0|[1-9]\d*)$/.test(key);
+}
+
+// 実在する連番の子セクションの番号を昇順で返す
+function ocsChildIndices(section: OcsSection): number[] {
+  const indices = [];
+  for (const [key, value] of Object.entries(section)) {
+    if (ocsIsIndex(key) && value !== undefined && ocsIsSection(value)) {
+      indices.push(parseInt10(key));
+    }
+  }
+  return indices.sort((a, b) => a - b);
+}
+
+// 連番の子セクションを除いた値を複製する
+export function ocsWithoutIndices(section: OcsSection | undefined): OcsSection {
+  const copied: OcsSection = {};
+  if (section !== undefined) {
+    for (const [key, value] of Object.entries(section)) {
+      if (!ocsIsIndex(key)) {
+        copied[key] = value;
+      }
+    }
+  }
+  return copied;
+}
+
 export class OcsError extends Error {
-  constructor(message?: string) {
+  constructor(message?: string, public diagnostic?: OcsDiagnostic) {
     super(message ?? "設定ファイルが異常です");
   }
 }
 
+export type OcsParseOptions = {
+  // 異常な項目があっても例外を投げず、代わりにOcsItemBrokenとして読み込む
+  recover?: boolean;
+  // LauncherCountやItemsを信用せず、実在する連番のセクションから再構築する
+  reconstruct?: boolean;
+};
+
+function invalidValue(section: OcsSection, key: string, name: string): OcsError {
+  const message = section[key] === undefined ? `${name}に${key}がありません` : `${name}の${key}の型が不正です`;
+  return new OcsError(message, ocsDiagnostic("error", section, key, message));
+}
+
+function invalidSection(parent: OcsSection, key: string, name: string): OcsError {
+  const message = parent[key] === undefined ? `${name}に${key}がありません` : `${name}の${key}がセクションではありません`;
+  return new OcsError(message, ocsChildDiagnostic("error", parent, key, message));
+}
+
+function requireString(section: OcsSection, key: string, name: string): string {
+  const value = section[key];
+  if (!(typeof value === "string")) {
+    throw invalidValue(section, key, name);
+  }
+  return value;
+}
+
+function optionalString(section: OcsSection, key: string, name: string): string | undefined {
+  const value = section[key];
+  if (!(value === undefined || typeof value === "string")) {
+    throw invalidValue(section, key, name);
+  }
+  return value;
+}
+
+function requireNumber(section: OcsSection, key: string, name: string): number {
+  const value = section[key];
+  if (!(typeof value === "number")) {
+    throw invalidValue(section, key, name);
+  }
+  return value;
+}
+
+function requireBinary(section: OcsSection, key: string, name: string): Uint8Array {
+  const value = section[key];
+  if (!(value instanceof Uint8Array)) {
+    throw invalidValue(section, key, name);
+  }
+  return value;
+}
+
+function requireSection(section: OcsSection, key: string, name: string): OcsSection {
+  const value = section[key];
+  if (!(value !== undefined && ocsIsSection(value))) {
+    throw invalidSection(section, key, name);
+  }
+  return value;
+}
+
 export class Ocs {
-  static parse(text: string): Ocs {
+  static parse(text: string, options: OcsParseOptions = {}): Ocs {
     // [Launchers]
     // LauncherCount=dw:1
     // [Launchers\1]
@@ -91,59 +288,125 @@ export class Ocs {
     // Items=dw:...
     // [Launchers\1\Menu\0\0]
     // ...
-    function parseRoot(root: OcsSection): Ocs {
-      const launchers = root["Launchers"];
-      if (!(launchers && ocsIsSection(launchers))) {
-        console.log("Launchersが不正");
-        throw new OcsError();
+    const recover = options.recover ?? false;
+    const reconstruct = options.reconstruct ?? false;
+    const diagnostics: OcsDiagnostic[] = [];
+
+    // 修復モードでは異常を例外ではなく戻り値と診断情報で表す
+    function tryParse<T>(f: () => T, fallback: (reason: string) => T): T {
+      try {
+        return f();
+      } catch (e) {
+        if (!(recover && e instanceof OcsError)) {
+          throw e;
+        }
+        if (e.diagnostic !== undefined) {
+          diagnostics.push(e.diagnostic);
+        }
+        return fallback(e.message);
       }
+    }
 
-      const launcherCount = launchers["LauncherCount"];
-      if (!(typeof launcherCount === "number")) {
-        console.log("LauncherCountが不正");
-        throw new OcsError();
+    function formatRange(first: number, last: number): string {
+      return first === last ? first.toString() : `${first}〜${last}`;
+    }
+
+    // 要素数を表す値から子セクションの番号を求める
+    function* childIndices(parent: OcsSection, countKey: string, start: number, name: string): Generator<number> {
+      if (!reconstruct) {
+        const end = start + requireNumber(parent, countKey, name);
+        for (let i = start; i < end; i++) {
+          yield i;
+        }
+        return;
       }
 
-      const ocsLaunchers = [];
-      for (let i = 1; i <= launcherCount; i++) {
-        const launcher = launchers[i.toString()];
-        if (!(launcher && ocsIsSection(launcher))) {
-          console.log("Launcher要素が不正");
-          throw new OcsError();
+      // 数え直す場合は実在する番号だけを順に使い、欠けた番号は詰める
+      const indices = ocsChildIndices(parent).filter((i) => i >= start);
+      const count = parent[countKey];
+      if (!(typeof count === "number")) {
+        const message = `${name}の${countKey}が不正なため、実在する要素から再構築しました`;
+        diagnostics.push(ocsDiagnostic("warning", parent, countKey, message));
+      } else {
+        const end = start + count;
+        const missing = [];
+        let next = start;
+        for (const i of indices) {
+          if (i >= end) {
+            break;
+          }
+          if (i > next) {
+            missing.push(formatRange(next, i - 1));
+          }
+          next = i + 1;
+        }
+        if (next < end) {
+          missing.push(formatRange(next, end - 1));
         }
+        const surplus = indices.filter((i) => i >= end).map((i) => i.toString());
 
-        ocsLaunchers.push(parseLauncher(launcher));
+        if (surplus.length > 0) {
+          const message = `${name}の${countKey}（${count}）を超える要素があります：${surplus.join("、")}`;
+          diagnostics.push(ocsDiagnostic("warning", parent, countKey, message));
+        }
+        if (missing.length > 0) {
+          const message = `${name}の${countKey}（${count}）より要素が足りません：${missing.join("、")}`;
+          diagnostics.push(ocsDiagnostic("warning", parent, countKey, message));
+        }
       }
 
-      return new Ocs(ocsLaunchers);
+      for (const i of indices) {
+        yield i;
+      }
     }
-    function parseLauncher(launcher: OcsSection): OcsLauncher {
-      const title = launcher["Title"];
-      const menu = launcher["Menu"];
-      if (!(typeof title === "string" && menu !== undefined && ocsIsSection(menu))) {
-        console.log("設定ファイルが異常です");
-        throw new OcsError();
+
+    function parseRoot(root: OcsSection): Ocs {
+      const launchers = requireSection(root, "Launchers", "設定ファイル");
+      const ocsLaunchers = [];
+      for (const i of childIndices(launchers, "LauncherCount", 1, "Launchers")) {
+        const name = `ランチャー${i}`;
+        const launcher = tryParse(
+          () => requireSection(launchers, i.toString(), "Launchers"),
+          () => undefined,
+        );
+        if (launcher === undefined) {
+          const placeholder = new OcsLauncher(name, [new OcsItemBroken(`${name}のセクションがありません`)]);
+          placeholder.placeholder = true;
+          ocsLaunchers.push(placeholder);
+          continue;
+        }
+
+        ocsLaunchers.push(parseLauncher(launcher, name));
       }
 
-      const ocsItems = parseMenu(menu);
-      return new OcsLauncher(title, ocsItems);
+      return new Ocs(ocsLaunchers, root, diagnostics);
+    }
+    function parseLauncher(launcher: OcsSection, name: string): OcsLauncher {
+      const title = tryParse(
+        () => requireString(launcher, "Title", name),
+        () => name,
+      );
+      const ocsItems = tryParse(
+        () => parseMenu(requireSection(launcher, "Menu", name)),
+        (reason) => [new OcsItemBroken(reason)],
+      );
+      return new OcsLauncher(title, ocsItems, launcher);
     }
     function parseMenu(menu: OcsSection): OcsItem[] {
-      const items = menu["Items"];
-      if (!(typeof items === "number")) {
-        console.log("Menuが不正");
-        throw new OcsError();
-      }
-
+      return parseChildren(menu, "Menu");
+    }
+    function parseChildren(parent: OcsSection, name: string): OcsItem[] {
       const ocsItems = [];
-      for (let i = 0; i < items; i++) {
-        const item = menu[i.toString()];
-        if (!(item && ocsIsSection(item))) {
-          console.log("Menu要素が不正");
-          throw new OcsError();
-        }
-
-        ocsItems.push(parseItem(item));
+      for (const i of childIndices(parent, "Items", 0, name)) {
+        ocsItems.push(
+          tryParse(
+            () => parseItem(requireSection(parent, i.toString(), name)),
+            (reason) => {
+              const item = parent[i.toString()];
+              return new OcsItemBroken(reason, item !== undefined && ocsIsSection(item) ? item : undefined);
+            },
+          ),
+        );
       }
 
       return ocsItems;
@@ -151,108 +414,349 @@ export class Ocs {
     function parseItem(item: OcsSection): OcsItem {
       switch (item["Type"]) {
         case 0: {
-          const itemID = item["ItemID"];
-          const caption = item["Caption"];
-          if (!(itemID instanceof Uint8Array && typeof caption === "string")) {
-            console.log("起動項目が不正");
-            throw new OcsError();
-          }
-
-          const parameter = item["Parameter"];
-          if (!(parameter === undefined || typeof parameter === "string")) {
-            console.log("起動項目が不正");
-            throw new OcsError();
-          }
-
-          const verb = item["Verb"];
-          if (!(verb === undefined || typeof verb === "string")) {
-            console.log("起動項目が不正");
-            throw new OcsError();
-          }
-
-          const showCmd = item["ShowCmd"];
-          if (!(typeof showCmd === "number")) {
-            console.log("起動項目が不正");
-            throw new OcsError();
-          }
-
-          return new OcsItemLaunch(itemID, caption, parameter, verb, showCmd);
+          const name = "起動項目";
+          const itemID = requireBinary(item, "ItemID", name);
+          const caption = requireString(item, "Caption", name);
+          const parameter = optionalString(item, "Parameter", name);
+          const verb = optionalString(item, "Verb", name);
+          const showCmd = requireNumber(item, "ShowCmd", name);
+          return new OcsItemLaunch(itemID, caption, parameter, verb, showCmd, item);
         }
 
         case 1: {
-          const itemID = item["ItemID"];
-          const caption = item["Caption"];
-          if (!(itemID instanceof Uint8Array && typeof caption === "string")) {
-            console.log("フォルダー項目が不正");
-            throw new OcsError();
-          }
-
-          return new OcsItemFolder(itemID, caption);
+          const name = "フォルダー項目";
+          const itemID = requireBinary(item, "ItemID", name);
+          const caption = requireString(item, "Caption", name);
+          return new OcsItemFolder(itemID, caption, item);
         }
 
         case 2: {
-          return new OcsItemSeparator();
+          return new OcsItemSeparator(item);
         }
 
         case 3: {
-          const caption = item["Caption"];
-          const items = item["Items"];
-          if (!(typeof caption === "string" && typeof items === "number")) {
-            console.log("サブメニュー項目が不正");
-            throw new OcsError();
-          }
-
-          const ocsItems = [];
-          for (let i = 0; i < items; i++) {
-            const subitem = item[i.toString()];
-            if (!(subitem && ocsIsSection(subitem))) {
-              console.log("サブメニュー要素が不正");
-              throw new OcsError();
-            }
-
-            ocsItems.push(parseItem(subitem));
-          }
-
-          return new OcsItemSubmenu(caption, ocsItems);
+          const name = "サブメニュー項目";
+          const caption = requireString(item, "Caption", name);
+          const ocsItems = parseChildren(item, name);
+          return new OcsItemSubmenu(caption, ocsItems, item);
         }
 
         case 4: {
-          const id = item["ID"];
-          const caption = item["Caption"];
-          if (!(typeof id === "number" && typeof caption === "string")) {
-            console.log("特殊項目が不正");
-            throw new OcsError();
-          }
-
-          return new OcsItemSpecial(id, caption);
+          const name = "特殊項目";
+          const id = requireNumber(item, "ID", name);
+          const caption = requireString(item, "Caption", name);
+          return new OcsItemSpecial(id, caption, item);
         }
 
         default: {
-          return new OcsItemUnknown();
+          diagnostics.push(ocsDiagnostic("warning", item, "Type", `未対応の項目です：${String(item["Type"])}`));
+          return new OcsItemUnknown(item);
         }
       }
     }
 
-    const root = parseOcs(text);
+    const root = parseOcs(text, diagnostics);
     if (Object.keys(root).length === 0) {
-      console.log("ファイルが空");
-      throw new OcsError();
+      throw new OcsError("ファイルが空です");
     }
     return parseRoot(root);
   }
 
-  constructor(public launchers: OcsLauncher[]) {}
+  constructor(
+    public launchers: OcsLauncher[],
+    public section: OcsSection = {},
+    public diagnostics: OcsDiagnostic[] = [],
+  ) {}
+
+  // 既存のランチャーと重ならないタイトルを返す
+  uniqueTitle(title: string): string {
+    return uniqueName(this.launchers.map((l) => l.title), title);
+  }
+
+  // 他のファイルのランチャーを複製して加える。同じタイトルのランチャーがあれば置き換える
+  mergeLauncher(launcher: OcsLauncher, title = launcher.title): OcsLauncher {
+    const copy = launcher.clone(title);
+    const index = this.launchers.findIndex((l) => l.title === title);
+    if (index !== -1) {
+      this.launchers[index] = copy;
+    } else {
+      this.launchers.push(copy);
+    }
+    return copy;
+  }
+
+  // セクションのパスから該当するランチャーと項目を探す
+  findBySectionPath(sectionPath: string): { launcher: OcsLauncher; item?: OcsItem } | undefined {
+    const keys = sectionPath.split("\\");
+    if (keys[0] !== "Launchers" || keys.length < 2) {
+      return undefined;
+    }
+
+    const launcher = findBySection(this.launchers, keys.slice(0, 2), 1);
+    if (launcher === undefined) {
+      return undefined;
+    }
+    if (keys[2] !== "Menu") {
+      return { launcher };
+    }
+
+    let item: OcsItem | undefined;
+    let items = launcher.items;
+    for (let i = 4; i <= keys.length; i++) {
+      const next = findBySection(items, keys.slice(0, i), 0);
+      if (next === undefined) {
+        break;
+      }
+
+      item = next;
+      items = next instanceof OcsItemSubmenu ? next.items : [];
+    }
+    return { launcher, item };
+  }
+
+  // 全ランチャーの項目から、キャプションや参照先などにqueryを含むものを探す（大文字小文字は区別しない）
+  search(query: string): OcsSearchHit[] {
+    const needle = query.toLowerCase();
+    const hits: OcsSearchHit[] = [];
+    if (!needle) {
+      return hits;
+    }
+
+    const walk = (launcher: OcsLauncher, items: OcsItem[], breadcrumb: string[]) => {
+      for (const item of items) {
+        const caption = ocsItemCaption(item);
+        const matched = ocsSearchTexts(item).find((text) => text.toLowerCase().includes(needle));
+        if (matched !== undefined) {
+          hits.push({ launcher, item, caption, breadcrumb, matched });
+        }
+
+        if (item instanceof OcsItemSubmenu) {
+          walk(launcher, item.items, [...breadcrumb, item.caption]);
+        }
+      }
+    };
+    for (const launcher of this.launchers) {
+      walk(launcher, launcher.items, [launcher.title]);
+    }
+    return hits;
+  }
+
+  // 書き出すと失われる、元のセクションを持つ読み込めなかった項目の数
+  countBrokenItems(): number {
+    return this.launchers.reduce((count, l) => count + countBroken(l.items), 0);
+  }
+
+  serialize(): string {
+    const base = this.section["Launchers"];
+    const launchers = ocsWithoutIndices(base !== undefined && ocsIsSection(base) ? base : undefined);
+    // セクションがなかったランチャーは書き出さず、書き出したランチャーだけを数える
+    const written = this.launchers.filter((l) => !l.placeholder);
+    launchers["LauncherCount"] = written.length;
+    for (let i = 0; i < written.length; i++) {
+      launchers[(i + 1).toString()] = written[i].toSection();
+    }
+
+    return serializeOcs({ ...this.section, Launchers: launchers });
+  }
+}
+
+export type OcsRawValue = string | number | Uint8Array;
+
+export type OcsSearchHit = {
+  launcher: OcsLauncher;
+  item: OcsItem;
+  caption: string | undefined;
+  // ランチャーのタイトルから、項目を含むサブメニューまでの名前
+  breadcrumb: string[];
+  // 検索語を含んでいた値
+  matched: string;
+};
+
+export type OcsItemKind = "launch" | "folder" | "separator" | "submenu" | "special" | "unknown" | "broken";
+
+// 項目の種類。クラス名は圧縮などで変わるため、instanceofで判別する
+export function ocsItemKind(item: OcsItem): OcsItemKind {
+  if (item instanceof OcsItemLaunch) {
+    return "launch";
+  }
+  if (item instanceof OcsItemFolder) {
+    return "folder";
+  }
+  if (item instanceof OcsItemSeparator) {
+    return "separator";
+  }
+  if (item instanceof OcsItemSubmenu) {
+    return "submenu";
+  }
+  if (item instanceof OcsItemSpecial) {
+    return "special";
+  }
+  if (item instanceof OcsItemUnknown) {
+    return "unknown";
+  }
+  return "broken";
+}
+
+export function ocsItemCaption(item: OcsItem): string | undefined {
+  if (item instanceof OcsItemBroken) {
+    return item.caption();
+  }
+  if (item instanceof OcsItemSeparator || item instanceof OcsItemUnknown) {
+    return undefined;
+  }
+  return item.caption;
+}
+
+// 参照先を解決できない場合は名前を除く
+function tryDisplayName(item: OcsItemLaunch | OcsItemFolder): string[] {
+  try {
+    return [item.displayName()];
+  } catch (e) {
+    if (!(e instanceof idl.IdlError)) {
+      throw e;
+    }
+    return [];
+  }
+}
+
+function ocsSearchTexts(item: OcsItem): string[] {
+  if (item instanceof OcsItemLaunch) {
+    return [item.caption, ...tryDisplayName(item), item.parameter ?? "", item.verb ?? ""];
+  }
+  if (item instanceof OcsItemFolder) {
+    return [item.caption, ...tryDisplayName(item)];
+  }
+  if (item instanceof OcsItemSpecial) {
+    return [item.caption, item.description()];
+  }
+  const caption = ocsItemCaption(item);
+  return caption !== undefined ? [caption] : [];
+}
+
+// 元のセクションのうち、既知のキーと子セクションを除いた値を返す
+function ocsExtraValues(section: OcsSection, knownKeys: readonly string[]): Array<[string, OcsRawValue]> {
+  const values: Array<[string, OcsRawValue]> = [];
+  for (const [key, value] of Object.entries(section)) {
+    if (value !== undefined && !ocsIsSection(value) && !knownKeys.includes(key)) {
+      values.push([key, value]);
+    }
+  }
+  return values;
+}
+
+// 読み込んだときのセクションの位置から要素を探す。番号を詰めて読み込んでいることがあるため並び順では探さない。
+// セクションのない要素は、番号を並び順とみなして探す
+function findBySection<T extends { section: OcsSection }>(elements: T[], path: string[], start: number): T | undefined {
+  const sectionPath = path.join("\\");
+  const found = elements.find((e) => sectionInfos.get(e.section)?.path.join("\\") === sectionPath);
+  const key = path[path.length - 1];
+  return found ?? (ocsIsIndex(key) ? elements[parseInt10(key) - start] : undefined);
+}
+
+// Orchisは読み込めない項目があるとファイル全体を読み込めないため、読み込めなかった項目は書き出さず、
+// 書き出す項目だけで番号を振り直す
+function itemsToSection(base: OcsSection, items: OcsItem[]): OcsSection {
+  const section = ocsWithoutIndices(base);
+  const written = items.filter((item) => !(item instanceof OcsItemBroken));
+  section["Items"] = written.length;
+  for (let i = 0; i < written.length; i++) {
+    section[i.toString()] = written[i].toSection();
+  }
+  return section;
+}
+
+// 元のセクションを持つ読み込めなかった項目を数える
+function countBroken(items: OcsItem[]): number {
+  let count = 0;
+  for (const item of items) {
+    if (item instanceof OcsItemBroken && Object.keys(item.section).length > 0) {
+      count++;
+    } else if (item instanceof OcsItemSubmenu) {
+      count += countBroken(item.items);
+    }
+  }
+  return count;
+}
+
+// namesと重ならないよう、必要なら「名前 (2)」のように番号を付ける
+function uniqueName(names: string[], name: string): string {
+  const used = new Set(names);
+  if (!used.has(name)) {
+    return name;
+  }
+
+  let n = 2;
+  while (used.has(`${name} (${n})`)) {
+    n++;
+  }
+  return `${name} (${n})`;
 }
 
 export class OcsLauncher {
-  constructor(public title: string, public items: OcsItem[]) {}
+  // 設定ファイルにセクションがなかったため、表示のためだけに作ったランチャー
+  placeholder = false;
+
+  constructor(public title: string, public items: OcsItem[], public section: OcsSection = {}) {}
+
+  #submenus(): OcsItemSubmenu[] {
+    return this.items.filter((item): item is OcsItemSubmenu => item instanceof OcsItemSubmenu);
+  }
+
+  // 直下のサブメニューと重ならない名前を返す
+  uniqueSubmenuCaption(caption: string): string {
+    return uniqueName(this.#submenus().map((item) => item.caption), caption);
+  }
+
+  hasSubmenu(caption: string): boolean {
+    return this.#submenus().some((item) => item.caption === caption);
+  }
+
+  // 他のランチャーを複製してサブメニューとして加える。同じ名前のサブメニューがあれば置き換える
+  mergeSubmenu(launcher: OcsLauncher, caption = launcher.title): OcsItemSubmenu {
+    const copy = launcher.clone(caption);
+    const submenu = new OcsItemSubmenu(copy.title, copy.items);
+    const index = this.items.findIndex((item) => item instanceof OcsItemSubmenu && item.caption === caption);
+    if (index !== -1) {
+      this.items[index] = submenu;
+    } else {
+      this.items.push(submenu);
+    }
+    return submenu;
+  }
+
+  static fromSubmenu(submenu: OcsItemSubmenu): OcsLauncher {
+    return new OcsLauncher(submenu.caption, submenu.items);
+  }
+
+  // 書き出して読み直すことで項目ごと複製する（読み込めない項目は書き出されないため複製されない）
+  clone(title = this.title): OcsLauncher {
+    const text = serializeOcs({ Launchers: { LauncherCount: 1, "1": { ...this.toSection(), Title: title } } });
+    return Ocs.parse(text, { recover: true }).launchers[0];
+  }
+
+  toSection(): OcsSection {
+    const menu = this.section["Menu"];
+    return {
+      ...this.section,
+      Title: this.title,
+      Menu: itemsToSection(menu !== undefined && ocsIsSection(menu) ? menu : {}, this.items),
+    };
+  }
 }
 
-export type OcsItem = OcsItemLaunch | OcsItemFolder | OcsItemSeparator | OcsItemSubmenu | OcsItemSpecial | OcsItemUnknown;
+export type OcsItem =
+  | OcsItemLaunch
+  | OcsItemFolder
+  | OcsItemSeparator
+  | OcsItemSubmenu
+  | OcsItemSpecial
+  | OcsItemUnknown
+  | OcsItemBroken;
 
 export class OcsItemLaunch {
   static #SHOW_CMD = ["通常のウィンドウ", "最小化", "最大化"];
-  #displayName?: string;
+  // 対応表が変わったら名前を引き直すため、対応表のリビジョンと共にキャッシュする
+  #displayName?: [revision: number, name: string];
 
   constructor(
     public itemID: Uint8Array,
@@ -260,10 +764,36 @@ export class OcsItemLaunch {
     public parameter: string | undefined,
     public verb: string | undefined,
     public showCmd: number,
+    public section: OcsSection = {},
   ) {}
 
   displayName(): string {
-    return this.#displayName ??= idl.getPathFromItemID(this.itemID);
+    if (this.#displayName?.[0] !== getRevision()) {
+      this.#displayName = [getRevision(), idl.getPathFromItemID(this.itemID)];
+    }
+    return this.#displayName[1];
+  }
+
+  setTarget(path: string): void {
+    this.itemID = idl.getItemIDFromPath(path);
+    this.#displayName = undefined;
+  }
+
+  extraValues(): Array<[string, OcsRawValue]> {
+    return ocsExtraValues(this.section, ["Type", "Caption", "ItemID", "Parameter", "Verb", "ShowCmd"]);
+  }
+
+  toSection(): OcsSection {
+    // 元のセクションのキーの順序を保ったまま値を上書きする（undefinedの値は書き出されない）
+    return {
+      ...this.section,
+      Type: 0,
+      Caption: this.caption,
+      ItemID: this.itemID,
+      Parameter: this.parameter,
+      Verb: this.verb,
+      ShowCmd: this.showCmd,
+    };
   }
 
   verbString(): string {
@@ -288,21 +818,53 @@ export class OcsItemLaunch {
 }
 
 export class OcsItemFolder {
-  #displayName?: string;
+  #displayName?: [revision: number, name: string];
 
-  constructor(public itemID: Uint8Array, public caption: string) {}
+  constructor(public itemID: Uint8Array, public caption: string, public section: OcsSection = {}) {}
 
   displayName(): string {
-    return this.#displayName ??= idl.getPathFromItemID(this.itemID);
+    if (this.#displayName?.[0] !== getRevision()) {
+      this.#displayName = [getRevision(), idl.getPathFromItemID(this.itemID)];
+    }
+    return this.#displayName[1];
+  }
+
+  setTarget(path: string): void {
+    this.itemID = idl.getItemIDFromPath(path, { directory: true });
+    this.#displayName = undefined;
+  }
+
+  extraValues(): Array<[string, OcsRawValue]> {
+    return ocsExtraValues(this.section, ["Type", "Caption", "ItemID"]);
+  }
+
+  toSection(): OcsSection {
+    return { ...this.section, Type: 1, Caption: this.caption, ItemID: this.itemID };
   }
 }
 
 export class OcsItemSeparator {
-  constructor() {}
+  constructor(public section: OcsSection = {}) {}
+
+  extraValues(): Array<[string, OcsRawValue]> {
+    return ocsExtraValues(this.section, ["Type"]);
+  }
+
+  toSection(): OcsSection {
+    return { ...this.section, Type: 2 };
+  }
 }
 
 export class OcsItemSubmenu {
-  constructor(public caption: string, public items: OcsItem[]) {}
+  constructor(public caption: string, public items: OcsItem[], public section: OcsSection = {}) {}
+
+  extraValues(): Array<[string, OcsRawValue]> {
+    return ocsExtraValues(this.section, ["Type", "Caption", "Items"]);
+  }
+
+  toSection(): OcsSection {
+    return itemsToSection({ ...this.section, Type: 3, Caption: this.caption }, this.items);
+  }
 }
 
 export class OcsItemSpecial {
@@ -325,13 +887,52 @@ export class OcsItemSpecial {
     168: "複数項目を同時に実行させる",
     175: "ホットキーの実行",
   };
-  constructor(public id: number, public caption: string) {}
+  constructor(public id: number, public caption: string, public section: OcsSection = {}) {}
 
   description(): string {
     return OcsItemSpecial.#ITEMS[this.id] ?? "不明な特殊項目";
   }
+
+  extraValues(): Array<[string, OcsRawValue]> {
+    return ocsExtraValues(this.section, ["Type", "ID", "Caption"]);
+  }
+
+  toSection(): OcsSection {
+    return { ...this.section, Type: 4, ID: this.id, Caption: this.caption };
+  }
 }
 
 export class OcsItemUnknown {
-  constructor() {}
+  // 解釈できない項目は元のセクションを子セクションごとそのまま書き戻す
+  constructor(public section: OcsSection) {}
+
+  type(): OcsValue | undefined {
+    return this.section["Type"];
+  }
+
+  extraValues(): Array<[string, OcsRawValue]> {
+    return ocsExtraValues(this.section, []);
+  }
+
+  toSection(): OcsSection {
+    return this.section;
+  }
+}
+
+export class OcsItemBroken {
+  // 読み込めなかった項目は理由と元のセクションを保持する
+  constructor(public reason: string, public section: OcsSection = {}) {}
+
+  caption(): string | undefined {
+    const caption = this.section["Caption"];
+    return typeof caption === "string" ? caption : undefined;
+  }
+
+  extraValues(): Array<[string, OcsRawValue]> {
+    return ocsExtraValues(this.section, []);
+  }
+
+  toSection(): OcsSection {
+    return this.section;
+  }
 }
@@ -0,0 +1,216 @@
+// ランチャーをスタートメニューのショートカットとして作り直すPowerShellスクリプトを作る
+
+import * as idl from "./idl.js";
+import { toFileName, uniqueName } from "./lnk.js";
+import {
+  OcsItem,
+  OcsItemFolder,
+  OcsItemLaunch,
+  OcsItemSeparator,
+  OcsItemSpecial,
+  OcsItemSubmenu,
+  OcsLauncher,
+  ocsItemCaption,
+} from "./orchis.js";
+
+type ShellCommand = {
+  // [Environment]::GetFolderPathに渡すフォルダー
+  folder: "System" | "Windows";
+  file: string;
+  arguments: string;
+};
+
+// 特殊項目のIDと、同じことをするコマンドの対応
+const SPECIAL_COMMANDS: Record<number, ShellCommand | undefined> = {
+  // ファイル名を指定して実行
+  144: { folder: "Windows", file: "explorer.exe", arguments: "shell:::{2559a1f3-21d7-11d4-bdaf-00c04f60b9f0}" },
+  // 検索
+  138: { folder: "Windows", file: "explorer.exe", arguments: "search-ms:" },
+  // ネットワークドライブの割り当て
+  143: { folder: "System", file: "rundll32.exe", arguments: "shell32.dll,SHHelpShortcuts_RunDLL Connect" },
+  // ネットワークドライブの切断
+  142: { folder: "System", file: "rundll32.exe", arguments: "shell32.dll,SHHelpShortcuts_RunDLL Disconnect" },
+  // ハードウェアの安全な取り外し
+  146: { folder: "System", file: "rundll32.exe", arguments: "shell32.dll,Control_RunDLL hotplug.dll" },
+  // フォルダオプション
+  176: { folder: "System", file: "rundll32.exe", arguments: "shell32.dll,Options_RunDLL 0" },
+  // 終了オプションダイアログ
+  133: {
+    folder: "System",
+    file: "WindowsPowerShell\\v1.0\\powershell.exe",
+    arguments: "-NoProfile -WindowStyle Hidden -Command (New-Object -ComObject Shell.Application).ShutdownWindows()",
+  },
+  181: { folder: "System", file: "shutdown.exe", arguments: "/s /t 0" },
+  183: { folder: "System", file: "shutdown.exe", arguments: "/r /t 0" },
+  // 休止状態が有効な環境では休止状態になる
+  185: { folder: "System", file: "rundll32.exe", arguments: "powrprof.dll,SetSuspendState 0,1,0" },
+  186: { folder: "System", file: "shutdown.exe", arguments: "/h" },
+  182: { folder: "System", file: "shutdown.exe", arguments: "/l" },
+  270: { folder: "System", file: "rundll32.exe", arguments: "user32.dll,LockWorkStation" },
+  // メールの作成
+  161: { folder: "Windows", file: "explorer.exe", arguments: "mailto:" },
+};
+
+// OrchisのShowCmd（1：通常、2：最小化、3：最大化）とWshShortcut.WindowStyleの対応
+const WINDOW_STYLES: Record<number, number | undefined> = { 1: 1, 2: 7, 3: 3 };
+
+const PROLOGUE = String.raw`$ErrorActionPreference = "Stop"
+$shell = New-Object -ComObject WScript.Shell
+
+function New-Shortcut([string]$Path, [string]$Target, [string]$Arguments, [int]$WindowStyle, [bool]$RunAs) {
+  $shortcut = $shell.CreateShortcut($Path)
+  $shortcut.TargetPath = $Target
+  $shortcut.Arguments = $Arguments
+  $shortcut.WindowStyle = $WindowStyle
+  $shortcut.Save()
+
+  if ($RunAs) {
+    # 管理者として実行する（LinkFlagsのRunAsUser）
+    $bytes = [IO.File]::ReadAllBytes($Path)
+    $bytes[0x15] = $bytes[0x15] -bor 0x20
+    [IO.File]::WriteAllBytes($Path, $bytes)
+  }
+}
+
+function New-UrlShortcut([string]$Path, [string]$Url) {
+  $shortcut = $shell.CreateShortcut($Path)
+  $shortcut.TargetPath = $Url
+  $shortcut.Save()
+}
+`;
+
+// 単一引用符の文字列にする。PowerShellは全角の引用符も引用符として扱う
+function quote(text: string): string {
+  return `'${text.replace(/['‘’‚‛]/g, "$&$&")}'`;
+}
+
+// 項目名などに改行があってもコメントの外に出ないようにする
+function comment(text: string): string {
+  return `# ${text.replace(/[\r\n]+/g, " ")}`;
+}
+
+function tryDisplayName(item: OcsItemLaunch | OcsItemFolder): string | undefined {
+  try {
+    return item.displayName();
+  } catch (e) {
+    if (!(e instanceof idl.IdlError)) {
+      throw e;
+    }
+    return undefined;
+  }
+}
+
+function isUrl(path: string): boolean {
+  return /^[A-Za-z][A-Za-z0-9+.-]+:\/\//.test(path);
+}
+
+// ショートカットの参照先にできるのはドライブかネットワーク上のパスのみ
+function isFileSystemPath(path: string): boolean {
+  return /^[A-Za-z]:\\/.test(path) || /^\\\\[^\\]/.test(path);
+}
+
+// $rootからの相対パス
+function joinPath(folder: string, name: string): string {
+  return folder !== "" ? `${folder}\\${name}` : name;
+}
+
+class ScriptBuilder {
+  lines: string[] = [];
+  // 作り直せなかった項目と理由
+  skipped: Array<[name: string, reason: string]> = [];
+
+  appendItems(items: OcsItem[], folder: string, breadcrumb: string[]): void {
+    const used = new Set<string>();
+    for (const item of items) {
+      if (item instanceof OcsItemSeparator) {
+        continue;
+      }
+
+      const caption = ocsItemCaption(item);
+      const name = [...breadcrumb, caption ?? "（名前なし）"].join(" > ");
+      if (item instanceof OcsItemSubmenu) {
+        const path = joinPath(folder, uniqueName(used, toFileName(item.caption), ""));
+        this.lines.push("", comment(name), `New-Item -ItemType Directory -Force -Path (Join-Path $root ${quote(path)}) | Out-Null`);
+        this.appendItems(item.items, path, [...breadcrumb, item.caption]);
+      } else if (item instanceof OcsItemLaunch || item instanceof OcsItemFolder) {
+        this.#appendTarget(item, folder, used, name);
+      } else if (item instanceof OcsItemSpecial) {
+        this.#appendSpecial(item, folder, used, name);
+      } else {
+        this.skipped.push([name, "読み込めないか未対応の項目です"]);
+      }
+    }
+  }
+
+  #appendTarget(item: OcsItemLaunch | OcsItemFolder, folder: string, used: Set<string>, name: string): void {
+    const target = tryDisplayName(item);
+    if (target === undefined) {
+      this.skipped.push([name, "参照先を解決できません"]);
+      return;
+    }
+
+    if (isUrl(target)) {
+      const path = joinPath(folder, uniqueName(used, toFileName(item.caption), ".url"));
+      this.lines.push(`New-UrlShortcut (Join-Path $root ${quote(path)}) ${quote(target)}`);
+      return;
+    }
+    if (!isFileSystemPath(target)) {
+      this.skipped.push([name, `ファイルシステム上にない参照先です：${target}`]);
+      return;
+    }
+
+    const path = joinPath(folder, uniqueName(used, toFileName(item.caption), ".lnk"));
+    const launch = item instanceof OcsItemLaunch ? item : undefined;
+    const args = [
+      `(Join-Path $root ${quote(path)})`,
+      quote(target),
+      quote(launch?.parameter ?? ""),
+      (launch !== undefined ? WINDOW_STYLES[launch.showCmd] : undefined) ?? 1,
+      launch?.verb === "runas" ? "$true" : "$false",
+    ];
+    if (launch?.verb !== undefined && !(launch.verb === "open" || launch.verb === "runas")) {
+      this.lines.push(comment(`実行時の動作「${launch.verb}」はショートカットで表せないため、開くとして作る`));
+    }
+    this.lines.push(`New-Shortcut ${args.join(" ")}`);
+  }
+
+  #appendSpecial(item: OcsItemSpecial, folder: string, used: Set<string>, name: string): void {
+    const command = SPECIAL_COMMANDS[item.id];
+    if (command === undefined) {
+      this.skipped.push([name, `同じことをするコマンドがない特殊項目です：${item.description()}`]);
+      return;
+    }
+
+    const path = joinPath(folder, uniqueName(used, toFileName(item.caption), ".lnk"));
+    const target = `(Join-Path ([Environment]::GetFolderPath(${quote(command.folder)})) ${quote(command.file)})`;
+    this.lines.push(
+      comment(item.description()),
+      `New-Shortcut (Join-Path $root ${quote(path)}) ${target} ${quote(command.arguments)} 1 $false`,
+    );
+  }
+}
+
+// ランチャーの項目をスタートメニューの「プログラム」以下に同じ階層で作り直すスクリプトを返す
+export function exportPowerShell(launcher: OcsLauncher): string {
+  const builder = new ScriptBuilder();
+  builder.appendItems(launcher.items, "", []);
+
+  const lines = [
+    comment(`Orchisのランチャー「${launcher.title}」をスタートメニューのショートカットとして作り直す`),
+    "",
+    PROLOGUE,
+    `$root = Join-Path ([Environment]::GetFolderPath("Programs")) ${quote(toFileName(launcher.title))}`,
+    "New-Item -ItemType Directory -Force -Path $root | Out-Null",
+    "",
+    ...builder.lines,
+  ];
+
+  if (builder.skipped.length > 0) {
+    lines.push("", "# 作り直せなかった項目");
+    for (const [name, reason] of builder.skipped) {
+      lines.push(comment(`  ${name}：${reason}`));
+    }
+  }
+  // Windows PowerShellで読めるように改行はCRLFとする
+  return `${lines.join("\r\n")}\r\n`.replace(/(?<!\r)\n/g, "\r\n");
+}
@@ -0,0 +1,106 @@
+// 無圧縮のZIPファイルを作る
+
+import { ByteWriter } from "./bytes.js";
+
+export type ZipEntry = {
+  // フォルダーは/で区切る。/で終わる場合はフォルダーそのものを表す
+  name: string;
+  data: Uint8Array;
+  modified?: Date;
+};
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(data: Uint8Array): number {
+  if (crcTable === undefined) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c;
+    }
+  }
+
+  let crc = 0xFFFFFFFF;
+  for (const b of data) {
+    crc = crcTable[(crc ^ b) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+// MS-DOS形式の日時は2秒単位の現地時刻
+function toDosDateTime(date: Date): [date: number, time: number] {
+  const year = Math.max(date.getFullYear(), 1980);
+  return [
+    ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  ];
+}
+
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const out = new ByteWriter();
+  const central = new ByteWriter();
+  const encoder = new TextEncoder();
+  const now = new Date();
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const [date, time] = toDosDateTime(entry.modified ?? now);
+    const offset = out.length;
+
+    // ローカルファイルヘッダー。ファイル名はUTF-8であることを示すフラグを立てる
+    out.uint32(0x04034B50);
+    out.uint16(20);
+    out.uint16(0x0800);
+    out.uint16(0);
+    out.uint16(time);
+    out.uint16(date);
+    out.uint32(crc);
+    out.uint32(entry.data.length);
+    out.uint32(entry.data.length);
+    out.uint16(name.length);
+    out.uint16(0);
+    out.bytes(name);
+    out.bytes(entry.data);
+
+    // セントラルディレクトリ
+    central.uint32(0x02014B50);
+    central.uint16(20);
+    central.uint16(20);
+    central.uint16(0x0800);
+    central.uint16(0);
+    central.uint16(time);
+    central.uint16(date);
+    central.uint32(crc);
+    central.uint32(entry.data.length);
+    central.uint32(entry.data.length);
+    central.uint16(name.length);
+    central.uint16(0);
+    central.uint16(0);
+    central.uint16(0);
+    central.uint16(0);
+    // フォルダーにはFILE_ATTRIBUTE_DIRECTORYを付ける
+    central.uint32(entry.name.endsWith("/") ? 0x10 : 0);
+    central.uint32(offset);
+    central.bytes(name);
+  }
+
+  const centralOffset = out.length;
+  const centralDirectory = central.build();
+  out.bytes(centralDirectory);
+
+  // セントラルディレクトリの終端
+  out.uint32(0x06054B50);
+  out.uint16(0);
+  out.uint16(0);
+  out.uint16(entries.length);
+  out.uint16(entries.length);
+  out.uint32(centralDirectory.length);
+  out.uint32(centralOffset);
+  out.uint16(0);
+
+  return out.build();
+}
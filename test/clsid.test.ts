@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { CLSID, CLSID_MyComputer } from "../src/clsid.js";
+
+describe("CLSID", () => {
+  it("文字列から読み込んで同じ文字列に戻せる", () => {
+    const s = "{20D04FE0-3AEA-1069-A2D8-08002B30309D}";
+    assert.equal(CLSID.fromString(s)?.toString(), s);
+  });
+
+  it("小文字の文字列は大文字になる", () => {
+    assert.equal(
+      CLSID.fromString("{871c5380-42a0-1069-a2ea-08002b30309d}")?.toString(),
+      "{871C5380-42A0-1069-A2EA-08002B30309D}",
+    );
+  });
+
+  it("バイト列はリトルエンディアンで読み書きする", () => {
+    const bytes = Uint8Array.of(
+      0xE0, 0x4F, 0xD0, 0x20, 0xEA, 0x3A, 0x69, 0x10, 0xA2, 0xD8, 0x08, 0x00, 0x2B, 0x30, 0x30, 0x9D,
+    );
+    const clsid = CLSID.fromArray(bytes);
+    assert.ok(clsid?.equals(CLSID_MyComputer));
+    assert.deepEqual(clsid?.toArray(), bytes);
+  });
+
+  it("文字列とバイト列を往復できる", () => {
+    for (const s of [
+      "{00000000-0000-0000-0000-000000000000}",
+      "{FFFFFFFF-FFFF-FFFF-FFFF-FFFFFFFFFFFF}",
+      "{5E591A74-DF96-48D3-8D67-1733BCEE28BA}",
+    ]) {
+      const clsid = CLSID.parse(s);
+      assert.equal(CLSID.fromArray(clsid.toArray())?.toString(), s);
+    }
+  });
+
+  it("形式が不正な文字列は読み込まない", () => {
+    for (const s of [
+      "",
+      "20D04FE0-3AEA-1069-A2D8-08002B30309D",
+      "{20D04FE0-3AEA-1069-A2D8-08002B30309}",
+      "{20D04FE0-3AEA-1069-A2D8-08002B30309DX}",
+      "{G0D04FE0-3AEA-1069-A2D8-08002B30309D}",
+    ]) {
+      assert.equal(CLSID.fromString(s), undefined, s);
+    }
+    assert.throws(() => CLSID.parse("{}"));
+  });
+
+  it("16バイトでないバイト列は読み込まない", () => {
+    assert.equal(CLSID.fromArray(new Uint8Array(15)), undefined);
+    assert.equal(CLSID.fromArray(new Uint8Array(17)), undefined);
+  });
+});
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { EncodingError, decodeText, detectEncoding, encodeText } from "../src/encoding.js";
+
+function hex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString("hex").toUpperCase();
+}
+
+describe("Shift_JIS", () => {
+  it("複数の符号がある文字はCP932と同じ符号とする", () => {
+    // JIS X 0208とNEC特殊文字、IBM拡張文字で重複する文字はJIS X 0208
+    assert.equal(hex(encodeText("∵", "shift_jis")), "81E6");
+    assert.equal(hex(encodeText("≒", "shift_jis")), "81E0");
+    assert.equal(hex(encodeText("￢", "shift_jis")), "81CA");
+    // NEC特殊文字とIBM拡張文字で重複する文字はNEC特殊文字
+    assert.equal(hex(encodeText("Ⅰ", "shift_jis")), "8754");
+    assert.equal(hex(encodeText("№", "shift_jis")), "8782");
+    // NEC選定IBM拡張文字とIBM拡張文字で重複する文字はIBM拡張文字
+    assert.equal(hex(encodeText("纊", "shift_jis")), "FA5C");
+  });
+
+  it("重複する文字を含む文字列を往復できる", () => {
+    const text = "∵≒￢Ⅰ№纊髙﨑 ｱｲｳ～";
+    assert.equal(decodeText(encodeText(text, "shift_jis"), "shift_jis").text, text);
+  });
+
+  it("NEC選定IBM拡張文字の符号は読み込み直すとIBM拡張文字の符号になる", () => {
+    const { text } = decodeText(Uint8Array.of(0xED, 0x40, 0xEE, 0xF9), "shift_jis");
+    assert.equal(text, "纊￢");
+    assert.equal(hex(encodeText(text, "shift_jis")), "FA5C81CA");
+  });
+
+  it("Shift_JISで表せない文字はEncodingErrorとする", () => {
+    assert.throws(() => encodeText("😀", "shift_jis"), EncodingError);
+    assert.throws(() => encodeText("한", "shift_jis"), EncodingError);
+  });
+});
+
+describe("文字コードの判別", () => {
+  it("BOMのあるUTF-16を判別して往復できる", () => {
+    const bytes = encodeText("[Launchers]\r\n", "utf-16le", true);
+    assert.deepEqual(detectEncoding(bytes), { encoding: "utf-16le", bom: true });
+    assert.deepEqual(decodeText(bytes), { text: "[Launchers]\r\n", encoding: "utf-16le", bom: true });
+  });
+
+  it("BOMのないUTF-16はNULの偏りから判別する", () => {
+    assert.deepEqual(detectEncoding(encodeText("[Launchers]", "utf-16be")), { encoding: "utf-16be", bom: false });
+  });
+
+  it("UTF-8として読めなければShift_JISとする", () => {
+    assert.deepEqual(detectEncoding(encodeText("Title=ランチャー", "shift_jis")), { encoding: "shift_jis", bom: false });
+  });
+});
@@ -0,0 +1,148 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { describe, it } from "node:test";
+import * as idl from "../src/idl.js";
+
+type ItemIDFixture = {
+  name: string;
+  hex: string;
+  path: string;
+};
+
+const fixtures: ItemIDFixture[] = JSON.parse(readFileSync(new URL("fixtures/itemids.json", import.meta.url), "utf-8"));
+
+function fromHex(hex: string): Uint8Array {
+  return Uint8Array.from(Buffer.from(hex, "hex"));
+}
+
+// 終端を除いた最後の要素
+function lastSegment(data: Uint8Array): idl.ItemIDList {
+  let last = new idl.ItemIDList(data);
+  for (let next = last.getNext(); next !== undefined && !next.isDesktop(); next = next.getNext()) {
+    last = next;
+  }
+  return last;
+}
+
+describe("getPathFromItemID", () => {
+  for (const fixture of fixtures) {
+    it(fixture.name, () => {
+      assert.equal(idl.getPathFromItemID(fromHex(fixture.hex)), fixture.path);
+    });
+  }
+
+  it("未登録のCLSIDは::{CLSID}として後続の要素を続ける", () => {
+    const clsid = "{12345678-9ABC-DEF0-1234-56789ABCDEF0}";
+    const path = `::${clsid}\\memo.txt`;
+    assert.equal(idl.getPathFromItemID(idl.getItemIDFromPath(path)), path);
+  });
+
+  it("要素数が足りなければIdlErrorとする", () => {
+    assert.throws(() => idl.getPathFromItemID(new Uint8Array(1)), idl.IdlError);
+  });
+});
+
+describe("Desktopの振り分け", () => {
+  function consumers(fixtureName: string): Array<string | undefined> {
+    const fixture = fixtures.find((f) => f.name === fixtureName)!;
+    return idl.inspectItemID(fromHex(fixture.hex)).map((s) => s.consumer);
+  }
+
+  it("CLSIDの要素はDesktopが処理し、続く要素を登録されたItemに渡す", () => {
+    assert.deepEqual(consumers("ドライブ").slice(0, 2), ["Desktop", "MyComputer"]);
+    assert.deepEqual(consumers("UNCパス").slice(0, 2), ["Desktop", "Network"]);
+    assert.deepEqual(consumers("UsersLibraries"), ["Desktop", "UsersLibraries", "FS", "FS"]);
+    assert.deepEqual(consumers("UsersFiles"), ["Desktop", "UsersFiles", "FS"]);
+  });
+
+  it("CLSIDだけの要素はクラス名とする", () => {
+    assert.deepEqual(consumers("UsersLibrariesのみ"), ["Desktop", "UsersLibraries"]);
+    assert.deepEqual(consumers("コントロールパネル"), ["Desktop", "ControlPanel"]);
+  });
+
+  it("UsersLibrariesは拡張GUIDの要素をライブラリ名とする", () => {
+    const fixture = fixtures.find((f) => f.name === "UsersLibraries")!;
+    const [, library] = idl.getPathFromItemID(fromHex(fixture.hex)).split("\\");
+    assert.equal(library, "ドキュメント");
+  });
+});
+
+describe("FileStructW_name", () => {
+  const data = idl.getItemIDFromPath("C:\\Windows\\notepad.exe");
+  const last = lastSegment(data);
+  const end = last.offset + last.cb;
+
+  // 要素の末尾にあるFileStructWへのオフセットを書き換える
+  function withOffset(offset: number): idl.ItemIDList {
+    const copy = data.slice();
+    copy[end - 2] = offset & 0xFF;
+    copy[end - 1] = offset >> 8;
+    return lastSegment(copy);
+  }
+
+  it("要素の末尾のオフセットから名前を読む", () => {
+    assert.equal(last.FileStructW_name(), "notepad.exe");
+  });
+
+  it("奇数のオフセットは無視する", () => {
+    const offset = data[end - 2] | (data[end - 1] << 8);
+    assert.equal(withOffset(offset + 1).FileStructW_name(), undefined);
+  });
+
+  it("FileStructより前を指すオフセットは無視する", () => {
+    assert.equal(withOffset(2).FileStructW_name(), undefined);
+  });
+
+  it("要素に収まらないオフセットは無視する", () => {
+    assert.equal(withOffset(last.cb - 2).FileStructW_name(), undefined);
+    assert.equal(withOffset(0xFFFE).FileStructW_name(), undefined);
+  });
+
+  it("FileStructWがなければ8.3形式の名前を使う", () => {
+    const offset = data[end - 2] | (data[end - 1] << 8);
+    const broken = withOffset(offset + 1);
+    assert.equal(broken.getText(), "notepad.exe");
+  });
+});
+
+describe("getItemIDFromPath", () => {
+  for (const path of [
+    "C:\\",
+    "C:\\Windows\\notepad.exe",
+    "C:\\作業\\メモ.txt",
+    "\\\\srv\\share",
+    "\\\\srv\\share\\tools\\bar.exe",
+    "https://example.com/a?b=c",
+    "::{12345678-1234-1234-1234-123456789ABC}\\foo",
+  ]) {
+    it(`${path}を往復できる`, () => {
+      assert.equal(idl.getPathFromItemID(idl.getItemIDFromPath(path)), path);
+    });
+  }
+
+  it("登録済みのフォルダーを表すCLSIDは名前に戻る", () => {
+    const path = idl.getPathFromItemID(idl.getItemIDFromPath("::{645FF040-5081-101B-9F08-00AA002F954E}\\foo"));
+    assert.equal(path, "ごみ箱\\foo");
+  });
+
+  it("同じパスに戻らないCLSIDのパスは作らない", () => {
+    assert.throws(() => idl.getItemIDFromPath("::{20D04FE0-3AEA-1069-A2D8-08002B30309D}\\foo"), idl.IdlError);
+    assert.throws(() => idl.getItemIDFromPath("::{F02C1A0D-BE21-4350-88B0-7367FC96EF3C}\\foo"), idl.IdlError);
+  });
+
+  it("ディレクトリとして作ると属性にディレクトリが付く", () => {
+    const metadata = idl.getFileMetadataFromItemID(idl.getItemIDFromPath("C:\\Work", { directory: true }));
+    assert.ok(metadata !== undefined && metadata.attributes & idl.FILE_ATTRIBUTE_DIRECTORY);
+  });
+
+  it("使えない名前を含むパスはIdlErrorとする", () => {
+    assert.throws(() => idl.getItemIDFromPath("C:\\a\\..\\b"), idl.IdlError);
+    assert.throws(() => idl.getItemIDFromPath("C:\\a?b"), idl.IdlError);
+    assert.throws(() => idl.getItemIDFromPath("relative\\path"), idl.IdlError);
+  });
+
+  it("ASCII以外の文字を含むサーバー名や共有名はIdlErrorとする", () => {
+    assert.throws(() => idl.getItemIDFromPath("\\\\サーバー\\share"), idl.IdlError);
+    assert.throws(() => idl.getItemIDFromPath("\\\\srv\\共有\\memo.txt"), idl.IdlError);
+  });
+});
@@ -0,0 +1,299 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { describe, it } from "node:test";
+import { decodeText } from "../src/encoding.js";
+import { exportJson, ocsToJson } from "../src/export.js";
+import { JsonImportError, importJson } from "../src/import.js";
+import {
+  Ocs,
+  OcsError,
+  OcsItemBroken,
+  OcsItemKind,
+  OcsItemLaunch,
+  OcsItemSpecial,
+  OcsItemSubmenu,
+  OcsItemUnknown,
+  OcsLauncher,
+  OcsParseOptions,
+  ocsItemCaption,
+  ocsItemKind,
+  parseOcs,
+  serializeOcs,
+} from "../src/orchis.js";
+
+function readFixture(name: string): string {
+  return decodeText(readFileSync(new URL(`fixtures/${name}`, import.meta.url))).text;
+}
+
+function parseFixture(name: string, options?: OcsParseOptions): Ocs {
+  return Ocs.parse(readFixture(name), options);
+}
+
+function itemTypes(ocs: Ocs): Array<[string, OcsItemKind[]]> {
+  return ocs.launchers.map((l) => [l.title, l.items.map(ocsItemKind)]);
+}
+
+describe("正常な設定ファイル", () => {
+  const ocs = parseFixture("valid.ocs");
+
+  it("問題なく読み込める", () => {
+    assert.deepEqual(ocs.diagnostics, []);
+    assert.deepEqual(itemTypes(ocs), [
+      ["メイン", ["launch", "launch", "submenu", "separator", "special"]],
+      ["サブ", ["launch", "launch"]],
+    ]);
+  });
+
+  it("項目の内容を読み込める", () => {
+    const [, cmd, tools, , lock] = ocs.launchers[0].items;
+    assert.ok(cmd instanceof OcsItemLaunch);
+    assert.equal(cmd.caption, "コマンドプロンプト");
+    assert.equal(cmd.verb, "runas");
+    assert.equal(cmd.showCmd, 3);
+
+    assert.ok(tools instanceof OcsItemSubmenu);
+    const deep = tools.items[1];
+    assert.ok(deep instanceof OcsItemSubmenu);
+    assert.equal(deep.caption, "深い");
+    assert.equal(deep.items.length, 1);
+
+    assert.ok(lock instanceof OcsItemSpecial);
+    assert.equal(lock.id, 270);
+    assert.equal(lock.caption, "ロック");
+  });
+
+  it("書き出すと元の内容に戻る", () => {
+    assert.equal(ocs.serialize(), readFixture("valid.ocs"));
+  });
+
+  it("JSONを経由しても同じ内容に戻る", () => {
+    assert.equal(importJson(exportJson(ocs, "hex")).serialize(), ocs.serialize());
+    assert.equal(importJson(exportJson(ocs, "base64")).serialize(), ocs.serialize());
+  });
+});
+
+describe("途中で切れた設定ファイル", () => {
+  it("復旧しなければOcsErrorとする", () => {
+    assert.throws(() => parseFixture("truncated.ocs"), OcsError);
+  });
+
+  it("復旧すると読めない項目を壊れた項目とする", () => {
+    const ocs = parseFixture("truncated.ocs", { recover: true });
+    assert.deepEqual(itemTypes(ocs), [
+      ["メイン", ["launch", "launch", "submenu", "broken", "broken"]],
+      ["ランチャー2", ["broken"]],
+    ]);
+    assert.deepEqual(
+      ocs.diagnostics.map((d) => [d.severity, d.sectionPath]),
+      [
+        ["warning", "Launchers\\1\\Menu\\2\\1\\0"],
+        ["error", "Launchers\\1\\Menu\\2\\1\\0"],
+        ["error", "Launchers\\1\\Menu\\3"],
+        ["error", "Launchers\\1\\Menu\\4"],
+        ["error", "Launchers\\2"],
+      ],
+    );
+  });
+
+  it("切れた行の位置を報告する", () => {
+    const ocs = parseFixture("truncated.ocs", { recover: true });
+    assert.deepEqual(ocs.diagnostics[0], {
+      severity: "warning",
+      line: 34,
+      sectionPath: "Launchers\\1\\Menu\\2\\1\\0",
+      key: undefined,
+      message: "不正な行です：Cap",
+    });
+  });
+
+  it("書き出すと読み込めない項目を除いて番号を詰める", () => {
+    const ocs = parseFixture("truncated.ocs", { recover: true });
+    const reparsed = Ocs.parse(ocs.serialize());
+    assert.deepEqual(reparsed.diagnostics, []);
+    assert.deepEqual(itemTypes(reparsed), [["メイン", ["launch", "launch", "submenu"]]]);
+    const tools = reparsed.launchers[0].items[2];
+    assert.ok(tools instanceof OcsItemSubmenu);
+    const deep = tools.items[1];
+    assert.ok(deep instanceof OcsItemSubmenu);
+    assert.deepEqual(deep.items, []);
+  });
+
+  it("セクションのなかったランチャーは書き出さない", () => {
+    const ocs = parseFixture("truncated.ocs", { recover: true });
+    assert.ok(ocs.launchers[1].placeholder);
+    const reparsed = Ocs.parse(ocs.serialize());
+    assert.deepEqual(
+      reparsed.launchers.map((l) => l.title),
+      ["メイン"],
+    );
+  });
+
+  it("数を数え直すと存在しない項目を除く", () => {
+    const ocs = parseFixture("truncated.ocs", { recover: true, reconstruct: true });
+    assert.deepEqual(itemTypes(ocs), [["メイン", ["launch", "launch", "submenu"]]]);
+    assert.deepEqual(itemTypes(Ocs.parse(ocs.serialize())), itemTypes(ocs));
+  });
+});
+
+describe("数が合わない設定ファイル", () => {
+  it("復旧すると足りないランチャーを壊れた項目とする", () => {
+    const ocs = parseFixture("bad-counts.ocs", { recover: true });
+    assert.equal(ocs.launchers.length, 3);
+    assert.ok(ocs.launchers[2].items[0] instanceof OcsItemBroken);
+  });
+
+  it("復旧した内容を書き出すと数え直さなくても読み込める", () => {
+    const ocs = parseFixture("bad-counts.ocs", { recover: true });
+    const reparsed = Ocs.parse(ocs.serialize());
+    assert.deepEqual(reparsed.diagnostics, []);
+    assert.deepEqual(itemTypes(reparsed), itemTypes(ocs).slice(0, 2));
+  });
+
+  it("数え直すと警告とする", () => {
+    const ocs = parseFixture("bad-counts.ocs", { reconstruct: true });
+    assert.equal(ocs.launchers.length, 2);
+    assert.deepEqual(
+      ocs.diagnostics.map((d) => [d.severity, d.sectionPath, d.key]),
+      [
+        ["warning", "Launchers", "LauncherCount"],
+        ["warning", "Launchers\\1\\Menu\\2", "Items"],
+      ],
+    );
+
+    // Itemsを超える要素も読み込む
+    const tools = ocs.launchers[0].items[2];
+    assert.ok(tools instanceof OcsItemSubmenu);
+    assert.equal(tools.items.length, 2);
+    assert.deepEqual(Ocs.parse(ocs.serialize()).diagnostics, []);
+  });
+
+  it("数え直すと欠けた番号を詰めて読み込む", () => {
+    const text = serializeOcs({
+      Launchers: {
+        LauncherCount: 1,
+        "1": {
+          Title: "メイン",
+          Menu: { Items: 2, "0": { Type: 2 }, "999999": { Type: 4, ID: 270, Caption: "ロック" } },
+        },
+      },
+    });
+    const ocs = Ocs.parse(text, { reconstruct: true });
+    const [separator, lock] = ocs.launchers[0].items;
+    assert.equal(ocs.launchers[0].items.length, 2);
+    assert.ok(lock instanceof OcsItemSpecial);
+    assert.deepEqual(
+      ocs.diagnostics.map((d) => d.message),
+      ["MenuのItems（2）を超える要素があります：999999", "MenuのItems（2）より要素が足りません：1"],
+    );
+    assert.equal(ocs.findBySectionPath("Launchers\\1\\Menu\\999999")?.item, lock);
+    assert.equal(ocs.findBySectionPath("Launchers\\1\\Menu\\0")?.item, separator);
+
+    // 書き出すと番号が詰められ、数え直さなくても読み込める
+    assert.equal(Ocs.parse(ocs.serialize()).launchers[0].items.length, 2);
+  });
+});
+
+describe("未対応の項目を含む設定ファイル", () => {
+  const ocs = parseFixture("unknown-types.ocs", { recover: true });
+
+  it("未対応の種類は警告として元の内容を保持する", () => {
+    const unknown = ocs.launchers[0].items[3];
+    assert.ok(unknown instanceof OcsItemUnknown);
+    assert.equal(unknown.type(), 9);
+    assert.deepEqual(unknown.extraValues(), [
+      ["Type", 9],
+      ["Extra", "abc"],
+    ]);
+    assert.ok(ocs.diagnostics.some((d) => d.severity === "warning" && d.sectionPath === "Launchers\\1\\Menu\\3"));
+  });
+
+  it("ItemIDのない起動項目は壊れた項目とする", () => {
+    const broken = ocs.launchers[1].items[1];
+    assert.ok(broken instanceof OcsItemBroken);
+    assert.equal(broken.caption(), "例");
+    assert.equal(broken.reason, "起動項目にItemIDがありません");
+  });
+
+  it("読み込めない項目は書き出さない", () => {
+    assert.equal(ocs.countBrokenItems(), 1);
+    const reparsed = Ocs.parse(ocs.serialize());
+    assert.deepEqual(reparsed.launchers[1].items.map(ocsItemCaption), ["Bar"]);
+  });
+
+  it("未対応の項目は書き出すと元に戻る", () => {
+    const reparsed = Ocs.parse(ocs.serialize(), { recover: true });
+    assert.deepEqual(reparsed.launchers[0].items, ocs.launchers[0].items);
+  });
+});
+
+describe("ランチャーの統合", () => {
+  it("同じタイトルのランチャーは置き換え、別のタイトルなら加える", () => {
+    const source = parseFixture("valid.ocs");
+    const target = parseFixture("valid.ocs");
+    assert.equal(target.uniqueTitle("サブ"), "サブ (2)");
+
+    target.mergeLauncher(source.launchers[0]);
+    target.mergeLauncher(source.launchers[1], target.uniqueTitle("サブ"));
+    assert.deepEqual(
+      target.launchers.map((l) => l.title),
+      ["メイン", "サブ", "サブ (2)"],
+    );
+    assert.notEqual(target.launchers[0].items[0], source.launchers[0].items[0]);
+  });
+
+  it("サブメニューとして加える場合も同じ名前のサブメニューは置き換える", () => {
+    const source = parseFixture("valid.ocs");
+    const target = parseFixture("valid.ocs").launchers[0];
+    const tools = source.launchers[0].items[2];
+    assert.ok(tools instanceof OcsItemSubmenu);
+
+    assert.ok(target.hasSubmenu("ツール"));
+    assert.equal(target.uniqueSubmenuCaption("ツール"), "ツール (2)");
+    target.mergeSubmenu(OcsLauncher.fromSubmenu(tools));
+    target.mergeSubmenu(source.launchers[1], target.uniqueSubmenuCaption("ツール"));
+    assert.deepEqual(
+      target.items.map((item) => ocsItemCaption(item)),
+      ["メモ帳", "コマンドプロンプト", "ツール", undefined, "ロック", "ツール (2)"],
+    );
+  });
+});
+
+describe("JSONを経由した往復", () => {
+  const ocs = parseFixture("extra-values.ocs");
+
+  it("項目やランチャーの未知の値と他のセクションを残す", () => {
+    const json = ocsToJson(ocs);
+    assert.equal(json.sections, serializeOcs({ Launchers: { Version: 3 }, Settings: ocs.section["Settings"] }));
+    assert.equal(json.launchers[0].extra, serializeOcs({ Launcher: { HotKey: 577, Menu: { IconSize: 16 } } }));
+    const [memo] = json.launchers[0].items;
+    assert.ok(memo.type === "launch");
+    assert.equal(memo.extra, "[Item]\r\nWorkDir=ws:67,58,92\r\n");
+  });
+
+  it("読み込み直すと同じ内容になる", () => {
+    for (const encoding of ["hex", "base64"] as const) {
+      const reimported = importJson(exportJson(ocs, encoding));
+      assert.deepEqual(parseOcs(reimported.serialize()), parseOcs(ocs.serialize()));
+    }
+  });
+
+  it("読み込めない項目も元のセクションを残す", () => {
+    const broken = parseFixture("unknown-types.ocs", { recover: true });
+    const reimported = importJson(exportJson(broken));
+    assert.deepEqual(ocsToJson(reimported), ocsToJson(broken));
+  });
+
+  it("元のセクションのない読み込めない項目は除く", () => {
+    const json = { launchers: [{ title: "メイン", items: [{ type: "broken", caption: "例", reason: "理由" }] }] };
+    assert.deepEqual(importJson(JSON.stringify(json)).launchers[0].items, []);
+  });
+
+  it(".ocsの書式で読み込めない行は問題とする", () => {
+    const json = { launchers: [], sections: "[Settings]\r\nHotKey=xx:1\r\n" };
+    assert.throws(() => importJson(JSON.stringify(json)), (e) => {
+      assert.ok(e instanceof JsonImportError);
+      assert.deepEqual(e.problems, [{ path: "$.sections", message: "2行目：不明な型です：xx" }]);
+      return true;
+    });
+  });
+});